@@ -0,0 +1,115 @@
+import * as THREE from 'three';
+
+/**
+ * Solves for when a projectile fired from the origin at a fixed speed can meet a
+ * target moving at constant velocity, i.e. the smallest t > 0 with
+ * |offset + velocity * t| = speed * t
+ * @param offset Target position relative to the shooter
+ * @param velocity Target velocity relative to the shooter
+ * @returns Time to intercept, or null if the projectile can never catch the target
+ */
+export function solveInterceptTime(offset: THREE.Vector3, velocity: THREE.Vector3, speed: number): number | null {
+  const a = velocity.dot(velocity) - speed * speed;
+  const b = 2 * offset.dot(velocity);
+  const c = offset.dot(offset);
+
+  // Target moving exactly as fast as the projectile: the equation is linear
+  if (Math.abs(a) < 1e-6) {
+    return b < 0 ? -c / b : null;
+  }
+
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) return null;
+
+  const root = Math.sqrt(discriminant);
+  const t1 = (-b - root) / (2 * a);
+  const t2 = (-b + root) / (2 * a);
+  const t = Math.min(t1, t2) > 0 ? Math.min(t1, t2) : Math.max(t1, t2);
+  return t > 0 ? t : null;
+}
+
+/**
+ * Where to point a straight-firing gun to hit a moving target. The result is the
+ * point the shell's direction passes through, so it can be fed straight to the turret.
+ * @param velocity Target velocity relative to the shooter (projectiles inherit the shooter's velocity)
+ * @returns The aim point, or the target's current position if there's no intercept
+ */
+export function computeLeadAimPoint(
+  shooter: THREE.Vector3,
+  target: THREE.Vector3,
+  velocity: THREE.Vector3,
+  speed: number
+): THREE.Vector3 {
+  const offset = new THREE.Vector3().subVectors(target, shooter);
+  const t = solveInterceptTime(offset, velocity, speed);
+  if (t === null) return target.clone();
+
+  return target.clone().add(velocity.clone().multiplyScalar(t));
+}
+
+// Launch speed that lands a shell fired at the given elevation at a horizontal range on level ground
+export function lobLaunchSpeed(range: number, angle: number, gravity: number): number {
+  return Math.sqrt(gravity * range / Math.sin(2 * angle));
+}
+
+// Flight time of a lobbed shell over a horizontal range on level ground
+export function lobFlightTime(range: number, angle: number, gravity: number): number {
+  return 2 * lobLaunchSpeed(range, angle, gravity) * Math.sin(angle) / gravity;
+}
+
+/**
+ * Elevation to fire at so a shell leaving at the given speed comes down on a point
+ * a horizontal range away and a height above the muzzle. There are usually two
+ * arcs that get there; the flat one is used unless highArc is set.
+ * @returns The elevation in radians, or null if the point is out of reach at this speed
+ */
+export function solveElevation(
+  range: number,
+  height: number,
+  speed: number,
+  gravity: number,
+  highArc: boolean = false
+): number | null {
+  if (gravity <= 0) return Math.atan2(height, range);
+
+  const speedSq = speed * speed;
+  const discriminant = speedSq * speedSq - gravity * (gravity * range * range + 2 * height * speedSq);
+  if (discriminant < 0) return null;
+
+  const root = Math.sqrt(discriminant);
+  return Math.atan2(speedSq + (highArc ? root : -root), gravity * range);
+}
+
+/**
+ * Follows a shell along its arc in small steps until it runs into something, for
+ * predicting where a shot will land. Steps are kept shorter than stepDistance so
+ * the shell can't skip through a single voxel.
+ * @param isBlocked Whether a point is inside something the shell would hit
+ * @returns Where and when the shell lands, or null if it's still in the air after maxTime
+ */
+export function traceTrajectory(
+  origin: THREE.Vector3,
+  velocity: THREE.Vector3,
+  gravity: number,
+  isBlocked: (point: THREE.Vector3) => boolean,
+  maxTime: number = 10,
+  stepDistance: number = 0.5
+): { point: THREE.Vector3, time: number } | null {
+  const point = new THREE.Vector3();
+  let t = 0;
+  while (t < maxTime) {
+    const verticalSpeed = velocity.y - gravity * t;
+    const speed = Math.sqrt(velocity.x * velocity.x + verticalSpeed * verticalSpeed + velocity.z * velocity.z);
+    t += stepDistance / Math.max(speed, 1);
+
+    point.set(
+      origin.x + velocity.x * t,
+      origin.y + velocity.y * t - 0.5 * gravity * t * t,
+      origin.z + velocity.z * t
+    );
+    if (isBlocked(point)) {
+      return { point, time: t };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,132 @@
+/**
+ * A small behavior tree runtime. Trees are ticked once per frame against a context
+ * (e.g. the tank being controlled) and re-evaluated from the root every tick, so
+ * higher priority branches take over as soon as their conditions hold.
+ */
+export enum NodeStatus {
+  SUCCESS,
+  FAILURE,
+  RUNNING,
+}
+
+export interface BehaviorNode<T> {
+  tick(context: T): NodeStatus;
+}
+
+// Runs children in order until one fails or is still running
+export class Sequence<T> implements BehaviorNode<T> {
+  private children: BehaviorNode<T>[];
+
+  constructor(...children: BehaviorNode<T>[]) {
+    this.children = children;
+  }
+
+  tick(context: T): NodeStatus {
+    for (const child of this.children) {
+      const status = child.tick(context);
+      if (status !== NodeStatus.SUCCESS) {
+        return status;
+      }
+    }
+    return NodeStatus.SUCCESS;
+  }
+}
+
+// Runs children in order until one succeeds or is still running
+export class Selector<T> implements BehaviorNode<T> {
+  private children: BehaviorNode<T>[];
+
+  constructor(...children: BehaviorNode<T>[]) {
+    this.children = children;
+  }
+
+  tick(context: T): NodeStatus {
+    for (const child of this.children) {
+      const status = child.tick(context);
+      if (status !== NodeStatus.FAILURE) {
+        return status;
+      }
+    }
+    return NodeStatus.FAILURE;
+  }
+}
+
+// Base class for nodes that wrap a single child and alter its result
+export abstract class Decorator<T> implements BehaviorNode<T> {
+  protected child: BehaviorNode<T>;
+
+  constructor(child: BehaviorNode<T>) {
+    this.child = child;
+  }
+
+  abstract tick(context: T): NodeStatus;
+}
+
+// Swaps success and failure
+export class Inverter<T> extends Decorator<T> {
+  tick(context: T): NodeStatus {
+    const status = this.child.tick(context);
+    if (status === NodeStatus.SUCCESS) return NodeStatus.FAILURE;
+    if (status === NodeStatus.FAILURE) return NodeStatus.SUCCESS;
+    return status;
+  }
+}
+
+// Reports success whatever the child did, so a sequence carries on past it
+export class AlwaysSucceed<T> extends Decorator<T> {
+  tick(context: T): NodeStatus {
+    this.child.tick(context);
+    return NodeStatus.SUCCESS;
+  }
+}
+
+// Ticks the child at most once per interval and fails in between
+export class Cooldown<T> extends Decorator<T> {
+  private interval: number | ((context: T) => number);
+  private lastRun: number = 0;
+
+  /**
+   * @param interval Milliseconds between runs, or a function reading it from the context
+   */
+  constructor(interval: number | ((context: T) => number), child: BehaviorNode<T>) {
+    super(child);
+    this.interval = interval;
+  }
+
+  tick(context: T): NodeStatus {
+    const currentTime = Date.now();
+    const interval = typeof this.interval === 'function' ? this.interval(context) : this.interval;
+    if (currentTime - this.lastRun < interval) {
+      return NodeStatus.FAILURE;
+    }
+
+    this.lastRun = currentTime;
+    return this.child.tick(context);
+  }
+}
+
+// Leaf that succeeds when the predicate holds
+export class Condition<T> implements BehaviorNode<T> {
+  private predicate: (context: T) => boolean;
+
+  constructor(predicate: (context: T) => boolean) {
+    this.predicate = predicate;
+  }
+
+  tick(context: T): NodeStatus {
+    return this.predicate(context) ? NodeStatus.SUCCESS : NodeStatus.FAILURE;
+  }
+}
+
+// Leaf that does some work; actions that return nothing count as succeeding
+export class Action<T> implements BehaviorNode<T> {
+  private action: (context: T) => NodeStatus | void;
+
+  constructor(action: (context: T) => NodeStatus | void) {
+    this.action = action;
+  }
+
+  tick(context: T): NodeStatus {
+    return this.action(context) ?? NodeStatus.SUCCESS;
+  }
+}
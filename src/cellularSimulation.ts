@@ -0,0 +1,76 @@
+import { VoxelWorld } from './voxelWorld';
+import { VoxelCoord, getVoxelKey, parseVoxelKey, getVoxelNeighbors } from './voxel';
+
+/**
+ * Base for simulations that move voxels a cell at a time, such as flowing water or
+ * sliding sand. Only cells near a change are simulated: anything that edits the world
+ * wakes the cells around it, and each tick steps at most a fixed number of awake cells
+ * so a big collapse is spread over several frames.
+ */
+export abstract class CellularSimulation {
+  protected voxelWorld: VoxelWorld;
+  private cellsPerTick: number;
+  private tickInterval: number;
+  private active: Set<string> = new Set(); // Cells to step, in the order they were woken
+  private timeSinceTick = 0;
+
+  /**
+   * @param cellsPerTick Most cells stepped per tick; the rest wait for later ticks
+   * @param tickInterval Seconds between ticks
+   */
+  constructor(voxelWorld: VoxelWorld, cellsPerTick: number, tickInterval: number) {
+    this.voxelWorld = voxelWorld;
+    this.cellsPerTick = cellsPerTick;
+    this.tickInterval = tickInterval;
+    voxelWorld.addVoxelChangeListener(voxelPos => this.handleVoxelChange(voxelPos));
+  }
+
+  update(deltaTime: number): void {
+    this.timeSinceTick += deltaTime;
+    if (this.timeSinceTick < this.tickInterval || this.active.size === 0) return;
+    this.timeSinceTick = 0;
+
+    // Take this tick's cells up front so cells woken while stepping wait for the next tick
+    const batch: string[] = [];
+    for (const key of this.active) {
+      batch.push(key);
+      if (batch.length >= this.cellsPerTick) break;
+    }
+    for (const key of batch) {
+      this.active.delete(key);
+    }
+    for (const key of batch) {
+      this.step(parseVoxelKey(key));
+    }
+  }
+
+  // Forget every awake cell, e.g. after building a world so nothing moves until it's disturbed
+  sleep(): void {
+    this.active.clear();
+  }
+
+  protected handleVoxelChange(voxelPos: VoxelCoord | null): void {
+    // The whole world was replaced
+    if (voxelPos === null) {
+      this.active.clear();
+      return;
+    }
+
+    this.wake(voxelPos);
+    for (const neighbor of getVoxelNeighbors(voxelPos)) {
+      this.wake(neighbor);
+    }
+  }
+
+  protected wake(voxelPos: VoxelCoord): void {
+    if (this.canStep(voxelPos)) {
+      this.active.add(getVoxelKey(voxelPos));
+    }
+  }
+
+  // Whether the cell holds anything this simulation moves
+  protected abstract canStep(voxelPos: VoxelCoord): boolean;
+
+  // Advance one cell, waking any cells that may move as a result
+  protected abstract step(voxelPos: VoxelCoord): void;
+}
@@ -0,0 +1,206 @@
+import * as THREE from 'three';
+import { VoxelMaterial, VoxelCoord, voxelProperties, parseVoxelKey } from './voxel';
+
+// How chunk geometry is built: merged quads of exposed faces, or one box instance per visible voxel
+export type VoxelMeshingMode = 'greedy' | 'instanced';
+
+// Geometry for all faces of one material in a chunk
+export interface MeshedGeometry {
+  material: VoxelMaterial;
+  geometry: THREE.BufferGeometry;
+}
+
+interface GeometryBuilder {
+  positions: number[];
+  normals: number[];
+  indices: number[];
+}
+
+const EMPTY = -1;
+
+/**
+ * Builds merged quads per material for a chunk using greedy meshing. Only faces
+ * that touch empty space or a different transparent material are emitted, and
+ * coplanar faces of the same material are merged into as few rectangles as possible.
+ * @param voxels Chunk voxels keyed by local "x,y,z"
+ * @param origin World voxel coordinate of the chunk's local (0,0,0)
+ * @param chunkSize Voxels per chunk edge
+ * @param getVoxel Looks up voxels outside the chunk (world coordinates) for faces on the chunk border
+ */
+export function greedyMeshChunk(
+  voxels: Map<string, VoxelMaterial>,
+  origin: VoxelCoord,
+  chunkSize: number,
+  getVoxel: (pos: VoxelCoord) => VoxelMaterial | undefined
+): MeshedGeometry[] {
+  const size = chunkSize;
+  const grid = buildPaddedGrid(voxels, origin, size, getVoxel);
+  const padded = size + 2;
+  const index = (pos: number[]) => (pos[0] + 1) + (pos[1] + 1) * padded + (pos[2] + 1) * padded * padded;
+
+  const builders = new Map<VoxelMaterial, GeometryBuilder>();
+  const mask = new Int16Array(size * size);
+  const pos = [0, 0, 0];
+
+  // Sweep each axis in both directions, one slice of faces at a time
+  for (let d = 0; d < 3; d++) {
+    const u = (d + 1) % 3;
+    const v = (d + 2) % 3;
+
+    for (const side of [1, -1]) {
+      for (let slice = 0; slice < size; slice++) {
+        // Mark which faces in this slice are visible, and their material
+        for (let j = 0; j < size; j++) {
+          for (let i = 0; i < size; i++) {
+            pos[d] = slice;
+            pos[u] = i;
+            pos[v] = j;
+            const material = grid[index(pos)];
+            pos[d] = slice + side;
+            const neighbor = grid[index(pos)];
+
+            const visible = material !== EMPTY &&
+              (neighbor === EMPTY || (voxelProperties[neighbor as VoxelMaterial].transparent && neighbor !== material));
+            mask[i + j * size] = visible ? material : EMPTY;
+          }
+        }
+
+        // Merge the visible faces into rectangles
+        for (let j = 0; j < size; j++) {
+          for (let i = 0; i < size;) {
+            const material = mask[i + j * size];
+            if (material === EMPTY) {
+              i++;
+              continue;
+            }
+
+            let width = 1;
+            while (i + width < size && mask[i + width + j * size] === material) {
+              width++;
+            }
+
+            let height = 1;
+            expand: while (j + height < size) {
+              for (let k = 0; k < width; k++) {
+                if (mask[i + k + (j + height) * size] !== material) {
+                  break expand;
+                }
+              }
+              height++;
+            }
+
+            for (let y = 0; y < height; y++) {
+              for (let x = 0; x < width; x++) {
+                mask[i + x + (j + y) * size] = EMPTY;
+              }
+            }
+
+            let builder = builders.get(material);
+            if (!builder) {
+              builder = { positions: [], normals: [], indices: [] };
+              builders.set(material, builder);
+            }
+            addQuad(builder, d, u, v, side, slice, i, j, width, height);
+
+            i += width;
+          }
+        }
+      }
+    }
+  }
+
+  const result: MeshedGeometry[] = [];
+  for (const [material, builder] of builders) {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(builder.positions, 3));
+    geometry.setAttribute('normal', new THREE.Float32BufferAttribute(builder.normals, 3));
+    geometry.setIndex(builder.indices);
+    geometry.computeBoundingSphere();
+    result.push({ material, geometry });
+  }
+  return result;
+}
+
+/**
+ * Reads the meshing mode from the `mesher` URL parameter (e.g. ?mesher=instanced),
+ * so both paths can be compared on the same seed
+ * @returns The mode, or null if the parameter is missing or unknown
+ */
+export function getMeshingModeFromUrl(): VoxelMeshingMode | null {
+  const value = new URLSearchParams(window.location.search).get('mesher');
+  return value === 'greedy' || value === 'instanced' ? value : null;
+}
+
+// Copy the chunk into a dense grid with a one voxel border taken from the neighbouring chunks
+function buildPaddedGrid(
+  voxels: Map<string, VoxelMaterial>,
+  origin: VoxelCoord,
+  size: number,
+  getVoxel: (pos: VoxelCoord) => VoxelMaterial | undefined
+): Int16Array {
+  const padded = size + 2;
+  const grid = new Int16Array(padded * padded * padded).fill(EMPTY);
+  const index = (x: number, y: number, z: number) => (x + 1) + (y + 1) * padded + (z + 1) * padded * padded;
+
+  for (const [key, material] of voxels) {
+    const local = parseVoxelKey(key);
+    grid[index(local.x, local.y, local.z)] = material;
+  }
+
+  // Only the cells directly across each chunk face matter, so edges and corners are skipped
+  for (let z = -1; z <= size; z++) {
+    for (let y = -1; y <= size; y++) {
+      for (let x = -1; x <= size; x++) {
+        const outside = Number(x < 0 || x >= size) + Number(y < 0 || y >= size) + Number(z < 0 || z >= size);
+        if (outside !== 1) continue;
+
+        const material = getVoxel({ x: origin.x + x, y: origin.y + y, z: origin.z + z });
+        if (material !== undefined) {
+          grid[index(x, y, z)] = material;
+        }
+      }
+    }
+  }
+
+  return grid;
+}
+
+// Emit a rectangle of faces; voxels are unit cubes centered on their local coordinates
+function addQuad(
+  builder: GeometryBuilder,
+  d: number, u: number, v: number,
+  side: number, slice: number,
+  i: number, j: number, width: number, height: number
+): void {
+  const base = [0, 0, 0];
+  base[d] = slice + side * 0.5;
+  base[u] = i - 0.5;
+  base[v] = j - 0.5;
+
+  const du = [0, 0, 0];
+  du[u] = width;
+  const dv = [0, 0, 0];
+  dv[v] = height;
+
+  const normal = [0, 0, 0];
+  normal[d] = side;
+
+  const first = builder.positions.length / 3;
+  const corners = [
+    base,
+    [base[0] + du[0], base[1] + du[1], base[2] + du[2]],
+    [base[0] + du[0] + dv[0], base[1] + du[1] + dv[1], base[2] + du[2] + dv[2]],
+    [base[0] + dv[0], base[1] + dv[1], base[2] + dv[2]]
+  ];
+  for (const corner of corners) {
+    builder.positions.push(corner[0], corner[1], corner[2]);
+    builder.normals.push(normal[0], normal[1], normal[2]);
+  }
+
+  // (u, v, d) is right handed, so the corners wind counter-clockwise when viewed along +d
+  if (side > 0) {
+    builder.indices.push(first, first + 1, first + 2, first, first + 2, first + 3);
+  } else {
+    builder.indices.push(first, first + 2, first + 1, first, first + 3, first + 2);
+  }
+}
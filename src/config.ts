@@ -1,3 +1,5 @@
+import { VoxelMeshingMode } from './chunkMesher';
+
 export interface GameConfig {
     worldSize: number;
     enemyCount: number;
@@ -17,6 +19,18 @@ export interface GameConfig {
     // Voxel world configuration
     voxelChunkSize: number;       // Size of voxel world in chunks (total is 2*size x 2*size)
     voxelTreeDensity: number;     // Chance of tree generation per chunk (0-1)
+    voxelMeshingMode: VoxelMeshingMode; // 'greedy' merged quads or 'instanced' box per voxel
+    voxelRebuildBudgetMs: number; // Time per frame for chunk mesh/physics rebuilds (at least one chunk always runs)
+    waterCellsPerTick: number;    // Most water cells the flow simulation steps per tick
+    granularCellsPerTick: number; // Most sand/soil cells the granular simulation steps per tick
+    fireCellsPerTick: number;     // Most burning voxels the fire simulation steps per tick
+    debrisVoxelCap: number;       // Most falling debris voxels at once; the oldest pieces go first
+    debrisLifetimeMs: number;     // How long debris lies around before fading out
+    debrisResolidify: boolean;    // Whether debris that comes to rest rejoins the voxel grid
+    // Day/night cycle
+    dayLengthSeconds: number;     // Length of a full day and night; 0 keeps the time of day fixed
+    startTimeOfDay: number;       // Time of day a match starts at, 0-1 from midnight (0.5 = noon)
+    nightDetectionMultiplier: number; // Enemy detection range multiplier at full night
 }
 export const defaultConfig: GameConfig = {
     worldSize: 500,
@@ -36,5 +50,16 @@ export const defaultConfig: GameConfig = {
     playerHealAmount: 10,
     // Voxel world defaults
     voxelChunkSize: 4,           // 4 chunks in each direction (8x8 chunks total)
-    voxelTreeDensity: 0.2        // 20% chance of tree per chunk
+    voxelTreeDensity: 0.2,       // 20% chance of tree per chunk
+    voxelMeshingMode: 'greedy',
+    voxelRebuildBudgetMs: 4,
+    waterCellsPerTick: 256,
+    granularCellsPerTick: 128,
+    fireCellsPerTick: 256,
+    debrisVoxelCap: 2048,
+    debrisLifetimeMs: 5000,
+    debrisResolidify: true,
+    dayLengthSeconds: 600,
+    startTimeOfDay: 0.4,
+    nightDetectionMultiplier: 0.4
 };
\ No newline at end of file
@@ -0,0 +1,208 @@
+import * as THREE from 'three';
+import { GameConfig } from './config';
+
+// How the arena is lit at one time of day
+export interface LightingPreset {
+  sky: number;                  // Background and renderer clear colour
+  sunColor: number;             // The sun by day, the moon by night
+  sunIntensity: number;
+  ambientColor: number;
+  ambientIntensity: number;
+  hemisphereSky: number;
+  hemisphereGround: number;
+  hemisphereIntensity: number;
+  fillIntensity: number;        // Light from the opposite side that softens shadows
+  darkness: number;             // 0 in daylight to 1 at full night
+}
+
+export const lightingPresets: Record<string, LightingPreset> = {
+  night: {
+    sky: 0x0b1026,
+    sunColor: 0x8899cc,
+    sunIntensity: 0.6,
+    ambientColor: 0x27305a,
+    ambientIntensity: 1.2,
+    hemisphereSky: 0x1c2448,
+    hemisphereGround: 0x151a10,
+    hemisphereIntensity: 0.5,
+    fillIntensity: 0.1,
+    darkness: 1
+  },
+  dawn: {
+    sky: 0xf0a27a,
+    sunColor: 0xffb27a,
+    sunIntensity: 1.5,
+    ambientColor: 0x8a7aa8,
+    ambientIntensity: 2.5,
+    hemisphereSky: 0xf0b090,
+    hemisphereGround: 0x4a5a3a,
+    hemisphereIntensity: 1.2,
+    fillIntensity: 0.5,
+    darkness: 0.3
+  },
+  noon: {
+    sky: 0x87ceeb,
+    sunColor: 0xffffcc,
+    sunIntensity: 2.5,
+    ambientColor: 0x6b8cff,
+    ambientIntensity: 4.0,
+    hemisphereSky: 0x87ceeb,
+    hemisphereGround: 0x648c4a,
+    hemisphereIntensity: 2.0,
+    fillIntensity: 1.0,
+    darkness: 0
+  },
+  dusk: {
+    sky: 0xd9704a,
+    sunColor: 0xff8c5a,
+    sunIntensity: 1.3,
+    ambientColor: 0x7a6090,
+    ambientIntensity: 2.2,
+    hemisphereSky: 0xc87860,
+    hemisphereGround: 0x3a4a2a,
+    hemisphereIntensity: 1.0,
+    fillIntensity: 0.4,
+    darkness: 0.4
+  }
+};
+
+// When each preset is reached over a day, from midnight (0) round to midnight again (1)
+const KEYFRAMES: Array<{ time: number, preset: LightingPreset }> = [
+  { time: 0, preset: lightingPresets.night },
+  { time: 0.2, preset: lightingPresets.night },
+  { time: 0.27, preset: lightingPresets.dawn },
+  { time: 0.35, preset: lightingPresets.noon },
+  { time: 0.65, preset: lightingPresets.noon },
+  { time: 0.73, preset: lightingPresets.dusk },
+  { time: 0.8, preset: lightingPresets.night },
+  { time: 1, preset: lightingPresets.night }
+];
+
+// Time of day each named preset is at its fullest, for the `time` URL parameter
+const PRESET_TIMES: Record<string, number> = { night: 0, dawn: 0.27, noon: 0.5, dusk: 0.73 };
+
+const HEADLIGHT_DARKNESS = 0.35; // Headlights come on once it's this dark
+const SUN_DISTANCE = 200;
+
+/**
+ * Time of day for the play state: owns the scene's sun, ambient, sky and fill lights
+ * and blends them between the lighting presets as the day goes by. The sun swings
+ * overhead from east to west; once it sets, the same light becomes a dim moon on the
+ * other side of the sky.
+ */
+export class DayNightCycle {
+  private scene: THREE.Scene;
+  private dayLength: number;
+  private nightDetectionMultiplier: number;
+  private sun: THREE.DirectionalLight;
+  private ambient: THREE.AmbientLight;
+  private hemisphere: THREE.HemisphereLight;
+  private fill: THREE.DirectionalLight;
+  private sky = new THREE.Color();
+  private current: LightingPreset = { ...lightingPresets.noon };
+  timeOfDay: number; // 0-1 from midnight
+
+  /**
+   * @param startTime Time of day to start at (0-1 from midnight); defaults to the configured start
+   */
+  constructor(scene: THREE.Scene, config: GameConfig, startTime: number = config.startTimeOfDay) {
+    this.scene = scene;
+    this.dayLength = config.dayLengthSeconds;
+    this.nightDetectionMultiplier = config.nightDetectionMultiplier;
+    this.timeOfDay = ((startTime % 1) + 1) % 1;
+
+    this.ambient = new THREE.AmbientLight();
+    this.sun = new THREE.DirectionalLight();
+    this.sun.castShadow = true;
+    this.hemisphere = new THREE.HemisphereLight();
+    this.fill = new THREE.DirectionalLight(0xffffee);
+    this.fill.position.set(-100, 50, -50);
+    scene.add(this.ambient, this.sun, this.hemisphere, this.fill);
+
+    this.scene.background = this.sky;
+    this.apply();
+  }
+
+  // How dark it is, from 0 in daylight to 1 at full night
+  get darkness(): number {
+    return this.current.darkness;
+  }
+
+  get headlightsOn(): boolean {
+    return this.current.darkness >= HEADLIGHT_DARKNESS;
+  }
+
+  // Scales how far enemies can spot the player: 1 by day, down to the configured multiplier at full night
+  get detectionMultiplier(): number {
+    return 1 + (this.nightDetectionMultiplier - 1) * this.current.darkness;
+  }
+
+  update(deltaTime: number): void {
+    if (this.dayLength <= 0) return;
+    this.timeOfDay = (this.timeOfDay + deltaTime / this.dayLength) % 1;
+    this.apply();
+  }
+
+  // Match the renderer's clear colour to the sky, for anything the background doesn't cover
+  applyToRenderer(renderer: THREE.WebGLRenderer): void {
+    renderer.setClearColor(this.sky, 1);
+  }
+
+  // Set every light for the current time of day
+  private apply(): void {
+    const next = KEYFRAMES.findIndex(keyframe => keyframe.time > this.timeOfDay);
+    const to = KEYFRAMES[next];
+    const from = KEYFRAMES[next - 1];
+    blendPresets(from.preset, to.preset, (this.timeOfDay - from.time) / (to.time - from.time), this.current);
+
+    this.sky.setHex(this.current.sky);
+    this.sun.color.setHex(this.current.sunColor);
+    this.sun.intensity = this.current.sunIntensity;
+    this.ambient.color.setHex(this.current.ambientColor);
+    this.ambient.intensity = this.current.ambientIntensity;
+    this.hemisphere.color.setHex(this.current.hemisphereSky);
+    this.hemisphere.groundColor.setHex(this.current.hemisphereGround);
+    this.hemisphere.intensity = this.current.hemisphereIntensity;
+    this.fill.intensity = this.current.fillIntensity;
+
+    // Rises in the east at a quarter of the way through the day and sets in the west at three quarters
+    const angle = (this.timeOfDay - 0.25) * Math.PI * 2;
+    const height = Math.sin(angle);
+    const direction = height >= 0 ? 1 : -1; // The moon is opposite the sun
+    this.sun.position.set(
+      Math.cos(angle) * SUN_DISTANCE * direction,
+      Math.max(Math.abs(height), 0.2) * SUN_DISTANCE,
+      100
+    );
+  }
+}
+
+/**
+ * Reads the time of day to start at from the `time` URL parameter, either a preset
+ * name (e.g. ?time=night) or a fraction of the day from midnight (e.g. ?time=0.75)
+ * @returns The time of day, or null if the parameter is missing or invalid
+ */
+export function getTimeOfDayFromUrl(): number | null {
+  const value = new URLSearchParams(window.location.search).get('time');
+  if (value === null) return null;
+  if (Object.prototype.hasOwnProperty.call(PRESET_TIMES, value)) {
+    return PRESET_TIMES[value];
+  }
+  const time = Number(value);
+  return value.trim() !== '' && time >= 0 && time <= 1 ? time : null;
+}
+
+function blendPresets(from: LightingPreset, to: LightingPreset, t: number, out: LightingPreset): void {
+  const blend = (a: number, b: number) => a + (b - a) * t;
+  const blendColor = (a: number, b: number) => new THREE.Color(a).lerp(new THREE.Color(b), t).getHex();
+  out.sky = blendColor(from.sky, to.sky);
+  out.sunColor = blendColor(from.sunColor, to.sunColor);
+  out.sunIntensity = blend(from.sunIntensity, to.sunIntensity);
+  out.ambientColor = blendColor(from.ambientColor, to.ambientColor);
+  out.ambientIntensity = blend(from.ambientIntensity, to.ambientIntensity);
+  out.hemisphereSky = blendColor(from.hemisphereSky, to.hemisphereSky);
+  out.hemisphereGround = blendColor(from.hemisphereGround, to.hemisphereGround);
+  out.hemisphereIntensity = blend(from.hemisphereIntensity, to.hemisphereIntensity);
+  out.fillIntensity = blend(from.fillIntensity, to.fillIntensity);
+  out.darkness = blend(from.darkness, to.darkness);
+}
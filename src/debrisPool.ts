@@ -0,0 +1,244 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d';
+import { GameObject } from './types';
+import { PhysicsWorld } from './physics';
+import { GameConfig } from './config';
+import { VoxelWorld, VoxelWorldHost } from './voxelWorld';
+import { VoxelCoord, VoxelMaterial, VOXEL_SIZE, voxelProperties, voxelToWorld } from './voxel';
+
+const REST_SPEED = 0.1;         // Below this linear and angular speed a piece counts as resting
+const REST_TIME = 1000;         // How long a piece must rest before it rejoins the grid (ms)
+const FADE_OUT_DURATION = 1000; // How long a piece takes to shrink away once its time is up (ms)
+
+// A voxel broken loose from the grid
+export interface DebrisVoxel {
+  pos: VoxelCoord;
+  material: VoxelMaterial;
+}
+
+// One falling piece: a rigid body and the voxels riding on it
+interface DebrisPiece {
+  gameObj: GameObject;
+  voxels: Array<{ offset: THREE.Vector3, material: VoxelMaterial }>;
+  expiresAt: number;      // When it starts fading out if it hasn't rejoined the grid
+  restingSince: number | null;
+}
+
+/**
+ * All falling debris in the world. Each piece is one rigid body, with runs of adjacent
+ * voxels merged into single box colliders, and every piece's voxels are drawn together
+ * through one instanced mesh, so a felled tree costs one body and no new materials.
+ *
+ * The pool holds at most config.debrisVoxelCap voxels; spawning past that evicts the
+ * oldest pieces first. Pieces that come to rest rejoin the voxel grid when
+ * config.debrisResolidify is set, and otherwise shrink away after a while.
+ */
+export class DebrisPool {
+  private host: VoxelWorldHost;
+  private voxelWorld: VoxelWorld;
+  private physicsWorld: PhysicsWorld;
+  private config: GameConfig;
+  private pieces: DebrisPiece[] = []; // Oldest first
+  private voxelCount = 0;
+  private instances: THREE.InstancedMesh;
+  private carrierGeometry = new THREE.BufferGeometry(); // Shared by the invisible meshes the physics world moves
+  private carrierMaterial = new THREE.MeshBasicMaterial();
+  private matrix = new THREE.Matrix4();
+  private color = new THREE.Color();
+
+  constructor(host: VoxelWorldHost, voxelWorld: VoxelWorld, physicsWorld: PhysicsWorld, scene: THREE.Scene, config: GameConfig) {
+    this.host = host;
+    this.voxelWorld = voxelWorld;
+    this.physicsWorld = physicsWorld;
+    this.config = config;
+
+    const geometry = new THREE.BoxGeometry(VOXEL_SIZE, VOXEL_SIZE, VOXEL_SIZE);
+    const material = new THREE.MeshStandardMaterial({ roughness: 0.7, metalness: 0.1 });
+    this.instances = new THREE.InstancedMesh(geometry, material, config.debrisVoxelCap);
+    this.instances.count = 0;
+    this.instances.frustumCulled = false;
+    scene.add(this.instances);
+  }
+
+  /**
+   * Turn voxels that have already been taken out of the grid into one falling piece
+   * @param impulse Push given to the piece
+   */
+  spawn(voxels: DebrisVoxel[], impulse?: THREE.Vector3): void {
+    if (voxels.length === 0) return;
+
+    // Make room, oldest pieces first
+    while (this.pieces.length > 0 && this.voxelCount + voxels.length > this.config.debrisVoxelCap) {
+      this.host.removeDebris(this.pieces[0].gameObj);
+      this.release(this.pieces[0]);
+    }
+
+    const center = new THREE.Vector3();
+    for (const { pos } of voxels) {
+      center.add(voxelToWorld(pos));
+    }
+    center.divideScalar(voxels.length);
+
+    const body = this.physicsWorld.world.createRigidBody(
+      RAPIER.RigidBodyDesc.dynamic().setTranslation(center.x, center.y, center.z)
+    );
+    for (const run of mergeRuns(voxels)) {
+      const voxelProps = voxelProperties[run.material];
+      const runCenter = voxelToWorld(run.start).sub(center);
+      runCenter.x += (run.length - 1) * VOXEL_SIZE / 2;
+
+      const colliderDesc = RAPIER.ColliderDesc.cuboid(run.length * VOXEL_SIZE / 2, VOXEL_SIZE / 2, VOXEL_SIZE / 2)
+        .setTranslation(runCenter.x, runCenter.y, runCenter.z)
+        .setFriction(voxelProps.friction)
+        .setRestitution(voxelProps.restitution)
+        .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
+      this.physicsWorld.world.createCollider(colliderDesc, body);
+    }
+    if (impulse) {
+      body.applyImpulse({ x: impulse.x, y: impulse.y, z: impulse.z }, true);
+    }
+
+    // The pool draws the piece, so its own mesh only carries the transform
+    const mesh = new THREE.Mesh(this.carrierGeometry, this.carrierMaterial);
+    mesh.visible = false;
+    mesh.position.copy(center);
+
+    const piece: DebrisPiece = {
+      gameObj: { mesh, body },
+      voxels: voxels.map(({ pos, material }) => ({ offset: voxelToWorld(pos).sub(center), material })),
+      expiresAt: Date.now() + this.config.debrisLifetimeMs,
+      restingSince: null
+    };
+    this.pieces.push(piece);
+    this.voxelCount += voxels.length;
+    this.host.addDebris(piece.gameObj);
+  }
+
+  // Retire pieces that are done and redraw the rest where their bodies are now
+  update(): void {
+    const now = Date.now();
+
+    for (const piece of [...this.pieces]) {
+      // Something else removed it, e.g. a shell blew it apart
+      if (!piece.gameObj.mesh.parent) {
+        this.release(piece);
+        continue;
+      }
+
+      const body = piece.gameObj.body;
+      if (body.translation().y < -20 || now >= piece.expiresAt + FADE_OUT_DURATION) {
+        this.remove(piece);
+        continue;
+      }
+
+      if (this.config.debrisResolidify && this.isResting(piece, now)) {
+        this.resolidify(piece);
+        this.remove(piece);
+      }
+    }
+
+    this.draw(now);
+  }
+
+  private isResting(piece: DebrisPiece, now: number): boolean {
+    const body = piece.gameObj.body;
+    const linvel = body.linvel();
+    const angvel = body.angvel();
+    const resting = body.isSleeping() ||
+      (Math.hypot(linvel.x, linvel.y, linvel.z) < REST_SPEED && Math.hypot(angvel.x, angvel.y, angvel.z) < REST_SPEED);
+
+    if (!resting) {
+      piece.restingSince = null;
+      return false;
+    }
+    if (piece.restingSince === null) {
+      piece.restingSince = now;
+    }
+    return now - piece.restingSince >= REST_TIME;
+  }
+
+  // Put a resting piece's voxels back into the grid at the nearest free cells
+  private resolidify(piece: DebrisPiece): void {
+    const transform = this.getTransform(piece);
+    for (const { offset, material } of piece.voxels) {
+      const position = offset.clone().applyMatrix4(transform);
+      // Voxels are centered on whole coordinates, so one lying on the ground sits half a voxel up
+      const voxelPos = {
+        x: Math.round(position.x / VOXEL_SIZE),
+        y: Math.round(position.y / VOXEL_SIZE - 0.25),
+        z: Math.round(position.z / VOXEL_SIZE)
+      };
+      if (voxelPos.y >= 0 && this.voxelWorld.getVoxel(voxelPos) === undefined) {
+        this.voxelWorld.setVoxel(voxelPos, material);
+      }
+    }
+  }
+
+  private remove(piece: DebrisPiece): void {
+    this.host.removeDebris(piece.gameObj);
+    this.release(piece);
+  }
+
+  // Forget a piece whose body is already gone from the world
+  private release(piece: DebrisPiece): void {
+    const index = this.pieces.indexOf(piece);
+    if (index === -1) return;
+    this.pieces.splice(index, 1);
+    this.voxelCount -= piece.voxels.length;
+  }
+
+  private draw(now: number): void {
+    let count = 0;
+    for (const piece of this.pieces) {
+      const transform = this.getTransform(piece);
+
+      // Shrink away over the fade out
+      const fade = Math.min(Math.max((now - piece.expiresAt) / FADE_OUT_DURATION, 0), 1);
+      const scale = 1 - fade;
+
+      for (const { offset, material } of piece.voxels) {
+        this.matrix.makeScale(scale, scale, scale).setPosition(offset);
+        this.matrix.premultiply(transform);
+        this.instances.setMatrixAt(count, this.matrix);
+        this.instances.setColorAt(count, this.color.set(voxelProperties[material].color));
+        count++;
+      }
+    }
+
+    this.instances.count = count;
+    this.instances.instanceMatrix.needsUpdate = true;
+    if (this.instances.instanceColor) {
+      this.instances.instanceColor.needsUpdate = true;
+    }
+  }
+
+  private getTransform(piece: DebrisPiece): THREE.Matrix4 {
+    const body = piece.gameObj.body;
+    const translation = body.translation();
+    const rotation = body.rotation();
+    return new THREE.Matrix4().compose(
+      new THREE.Vector3(translation.x, translation.y, translation.z),
+      new THREE.Quaternion(rotation.x, rotation.y, rotation.z, rotation.w),
+      new THREE.Vector3(1, 1, 1)
+    );
+  }
+}
+
+// Group voxels into runs of the same material along X so each run needs only one collider
+function mergeRuns(voxels: DebrisVoxel[]): Array<{ start: VoxelCoord, length: number, material: VoxelMaterial }> {
+  const sorted = [...voxels].sort((a, b) =>
+    a.pos.y - b.pos.y || a.pos.z - b.pos.z || a.pos.x - b.pos.x
+  );
+
+  const runs: Array<{ start: VoxelCoord, length: number, material: VoxelMaterial }> = [];
+  for (const { pos, material } of sorted) {
+    const run = runs[runs.length - 1];
+    if (run && run.material === material && run.start.y === pos.y && run.start.z === pos.z &&
+      run.start.x + run.length === pos.x) {
+      run.length++;
+    } else {
+      runs.push({ start: pos, length: 1, material });
+    }
+  }
+  return runs;
+}
@@ -0,0 +1,496 @@
+import * as THREE from 'three';
+import { GameObject, InputState } from './types';
+import { IGameState } from './gameStates';
+import { GameStateManager } from './gameStateManager';
+import { GameConfig, defaultConfig } from './config';
+import { PhysicsWorld } from './physics';
+import { FlyCamera } from './flyCamera';
+import { VoxelWorld } from './voxelWorld';
+import { VoxelMaterial, VoxelCoord, voxelProperties } from './voxel';
+import { VoxelMap, VoxelMapSpawns, downloadVoxelMap } from './voxelMapFormat';
+import { voxelPrefabs } from './voxelObjects';
+import { createVoxelStructures, getArenaLayoutFromUrl } from './arena';
+import { createGround } from './gameObjects';
+import { getMeshingModeFromUrl } from './chunkMesher';
+import { RandomGenerator, RandomStream, createRandomStream, createSeededRandom, generateSeed, getSeedFromUrl } from './random';
+
+// What a left click does in the editor
+enum EditorTool {
+  VOXEL = 'Voxel',
+  PREFAB = 'Prefab',
+  PLAYER_SPAWN = 'Player Spawn',
+  ENEMY_SPAWN = 'Enemy Spawn',
+}
+
+const EDITOR_TOOLS = [EditorTool.VOXEL, EditorTool.PREFAB, EditorTool.PLAYER_SPAWN, EditorTool.ENEMY_SPAWN];
+
+const EDITOR_MATERIALS = Object.values(VoxelMaterial)
+  .filter(value => typeof value === 'number') as VoxelMaterial[];
+
+// How far away voxels and the ground can be edited
+const EDIT_DISTANCE = 100;
+
+/**
+ * Level editor: fly around the arena, build with voxels and prefabs, mark spawn
+ * points and save the result as a voxel map for later play
+ */
+export class EditorState implements IGameState {
+  private gameStateManager: GameStateManager;
+  private scene: THREE.Scene;
+  private camera: THREE.PerspectiveCamera;
+  private config: GameConfig;
+  private physicsWorld: PhysicsWorld;
+  private voxelWorld: VoxelWorld;
+  private flyCamera: FlyCamera;
+  private debris: GameObject[] = [];
+  private random: RandomGenerator;
+
+  private tool: EditorTool = EditorTool.VOXEL;
+  private materialIndex: number = 0;
+  private prefabIndex: number = 0;
+  private spawns: VoxelMapSpawns = { player: null, enemies: [] };
+
+  private input: InputState;
+  private descend: boolean = false;
+  private cursor: THREE.LineSegments;
+  private spawnMarkers: THREE.Group;
+  // Shared by every spawn marker, so rebuilding the markers allocates nothing on the GPU
+  private markerGeometry = new THREE.ConeGeometry(0.5, 1.5, 8);
+  private playerMarkerMaterial = new THREE.MeshBasicMaterial({ color: 0x00ff00 });
+  private enemyMarkerMaterial = new THREE.MeshBasicMaterial({ color: 0xff0000 });
+  private hud: HTMLDivElement;
+  private crosshair: HTMLDivElement;
+
+  private keydownHandler: (event: KeyboardEvent) => void;
+  private keyupHandler: (event: KeyboardEvent) => void;
+  private mousedownHandler: (event: MouseEvent) => void;
+  private wheelHandler: (event: WheelEvent) => void;
+  private contextMenuHandler: (event: MouseEvent) => void;
+  private resizeHandler: () => void;
+
+  /**
+   * @param voxelMap Optional map to edit; a seeded arena is generated otherwise
+   */
+  constructor(gameStateManager: GameStateManager, voxelMap?: VoxelMap) {
+    this.gameStateManager = gameStateManager;
+    this.config = { ...defaultConfig, voxelMeshingMode: getMeshingModeFromUrl() ?? defaultConfig.voxelMeshingMode };
+
+    this.scene = new THREE.Scene();
+    this.scene.background = new THREE.Color(0x87ceeb); // Light sky blue
+
+    this.camera = new THREE.PerspectiveCamera(60, window.innerWidth / window.innerHeight, 0.1, 2000);
+    this.camera.position.set(0, 20, 40);
+    this.camera.lookAt(0, 0, 0);
+    this.flyCamera = new FlyCamera(this.camera);
+
+    this.physicsWorld = new PhysicsWorld(this.config);
+    this.voxelWorld = new VoxelWorld(this, this.scene, this.physicsWorld, this.config);
+    this.scene.add(createGround(this.config.worldSize).mesh);
+
+    // Lighting matches the play state so maps look the same in both
+    this.scene.add(new THREE.AmbientLight(0x6b8cff, 4.0));
+    const directionalLight = new THREE.DirectionalLight(0xffffcc, 2.5);
+    directionalLight.position.set(100, 200, 100);
+    this.scene.add(directionalLight);
+    this.scene.add(new THREE.HemisphereLight(0x87ceeb, 0x648c4a, 2.0));
+
+    const seed = getSeedFromUrl() ?? generateSeed();
+    this.random = createSeededRandom(seed);
+    if (voxelMap) {
+      this.voxelWorld.importMap(voxelMap);
+      this.voxelWorld.flushRebuilds();
+      this.voxelWorld.sleepSimulations();
+      this.spawns = {
+        player: voxelMap.spawns.player ? { ...voxelMap.spawns.player } : null,
+        enemies: voxelMap.spawns.enemies.map(spawn => ({ ...spawn }))
+      };
+    } else {
+      this.generateArena(seed);
+    }
+
+    // Wireframe box showing the cell that will be edited
+    this.cursor = new THREE.LineSegments(
+      new THREE.EdgesGeometry(new THREE.BoxGeometry(1.02, 1.02, 1.02)),
+      new THREE.LineBasicMaterial({ color: 0xffffff })
+    );
+    this.cursor.visible = false;
+    this.scene.add(this.cursor);
+
+    this.spawnMarkers = new THREE.Group();
+    this.scene.add(this.spawnMarkers);
+    this.updateSpawnMarkers();
+
+    this.input = {
+      forward: false,
+      backward: false,
+      left: false,
+      right: false,
+      fire: false,
+      wireframeToggle: false,
+      debugPhysicsToggle: false,
+      turretLeft: false,
+      turretRight: false,
+      mouseX: 0,
+      mouseDeltaX: 0,
+      mouseDeltaY: 0,
+      barrelUp: false,
+      barrelDown: false
+    };
+
+    this.hud = document.createElement('div');
+    this.hud.id = 'editor-hud';
+    this.hud.style.position = 'absolute';
+    this.hud.style.top = '10px';
+    this.hud.style.left = '10px';
+    this.hud.style.color = '#00ff00';
+    this.hud.style.fontFamily = 'monospace';
+    this.hud.style.fontSize = '14px';
+    this.hud.style.backgroundColor = 'rgba(0, 0, 0, 0.5)';
+    this.hud.style.padding = '5px';
+    this.hud.style.border = '1px solid #00ff00';
+
+    this.crosshair = document.createElement('div');
+    this.crosshair.id = 'editor-crosshair';
+    this.crosshair.textContent = '+';
+    this.crosshair.style.position = 'absolute';
+    this.crosshair.style.top = '50%';
+    this.crosshair.style.left = '50%';
+    this.crosshair.style.transform = 'translate(-50%, -50%)';
+    this.crosshair.style.color = '#ffffff';
+    this.crosshair.style.fontFamily = 'monospace';
+    this.crosshair.style.fontSize = '24px';
+    this.crosshair.style.pointerEvents = 'none';
+
+    this.keydownHandler = (event: KeyboardEvent) => this.handleKeyDown(event);
+    this.keyupHandler = (event: KeyboardEvent) => this.handleKeyUp(event);
+    this.mousedownHandler = (event: MouseEvent) => this.handleMouseDown(event);
+    this.wheelHandler = (event: WheelEvent) => this.cycleSelection(Math.sign(event.deltaY));
+    this.contextMenuHandler = (event: MouseEvent) => event.preventDefault();
+    this.resizeHandler = () => {
+      this.camera.aspect = window.innerWidth / window.innerHeight;
+      this.camera.updateProjectionMatrix();
+    };
+  }
+
+  onEnter(): void {
+    document.body.appendChild(this.hud);
+    document.body.appendChild(this.crosshair);
+    this.updateHud();
+
+    window.addEventListener('keydown', this.keydownHandler);
+    window.addEventListener('keyup', this.keyupHandler);
+    window.addEventListener('mousedown', this.mousedownHandler);
+    window.addEventListener('wheel', this.wheelHandler);
+    window.addEventListener('contextmenu', this.contextMenuHandler);
+    window.addEventListener('resize', this.resizeHandler);
+  }
+
+  onExit(): void {
+    window.removeEventListener('keydown', this.keydownHandler);
+    window.removeEventListener('keyup', this.keyupHandler);
+    window.removeEventListener('mousedown', this.mousedownHandler);
+    window.removeEventListener('wheel', this.wheelHandler);
+    window.removeEventListener('contextmenu', this.contextMenuHandler);
+    window.removeEventListener('resize', this.resizeHandler);
+
+    this.flyCamera.disable();
+    this.hud.remove();
+    this.crosshair.remove();
+
+    this.spawnMarkers.clear();
+    this.markerGeometry.dispose();
+    this.playerMarkerMaterial.dispose();
+    this.enemyMarkerMaterial.dispose();
+    this.voxelWorld.dispose();
+  }
+
+  update(deltaTime: number): void {
+    this.flyCamera.update(this.input, deltaTime);
+    if (this.flyCamera.enabled && this.descend) {
+      // FlyCamera only climbs, so descending is handled here
+      this.camera.position.y -= this.flyCamera.moveSpeed * deltaTime * 60;
+    }
+
+    // Rebuild what's been painted without letting water flow, sand slide or anything burn
+    this.voxelWorld.update(deltaTime, this.camera.position, false);
+    this.physicsWorld.update(deltaTime);
+    [...this.debris].forEach(obj => {
+      if (obj.update) {
+        obj.update(deltaTime);
+      }
+    });
+
+    this.updateCursor();
+  }
+
+  render(renderer: THREE.WebGLRenderer): void {
+    renderer.render(this.scene, this.camera);
+  }
+
+  public addDebris(debris: GameObject): void {
+    this.debris.push(debris);
+    this.physicsWorld.addBody(debris);
+    this.scene.add(debris.mesh);
+  }
+
+  public removeDebris(debris: GameObject): void {
+    const index = this.debris.indexOf(debris);
+    if (index === -1) return;
+    this.scene.remove(debris.mesh);
+    this.physicsWorld.removeBody(debris);
+    this.debris.splice(index, 1);
+  }
+
+  private handleKeyDown(event: KeyboardEvent): void {
+    switch (event.code) {
+      case 'KeyW':
+      case 'ArrowUp':
+        this.input.forward = true;
+        break;
+      case 'KeyS':
+      case 'ArrowDown':
+        this.input.backward = true;
+        break;
+      case 'KeyA':
+      case 'ArrowLeft':
+        this.input.left = true;
+        break;
+      case 'KeyD':
+      case 'ArrowRight':
+        this.input.right = true;
+        break;
+      case 'Space':
+        this.input.fire = true; // FlyCamera climbs on fire
+        break;
+      case 'KeyC':
+        this.descend = true;
+        break;
+      case 'Digit1':
+      case 'Digit2':
+      case 'Digit3':
+      case 'Digit4':
+        this.tool = EDITOR_TOOLS[Number(event.code.slice(5)) - 1];
+        this.updateHud();
+        break;
+      case 'BracketLeft':
+        this.cycleSelection(-1);
+        break;
+      case 'BracketRight':
+        this.cycleSelection(1);
+        break;
+      case 'KeyM':
+        downloadVoxelMap(this.voxelWorld.exportMap(this.spawns), 'voxelzone-map.vxzm');
+        break;
+      case 'KeyN':
+        this.voxelWorld.clear();
+        this.spawns = { player: null, enemies: [] };
+        this.updateSpawnMarkers();
+        this.updateHud();
+        break;
+      case 'KeyG':
+        this.generateArena(generateSeed());
+        break;
+      case 'Enter':
+        // Play-test the map as it is now
+        this.gameStateManager.switchToPlay(this.voxelWorld.exportMap(this.spawns));
+        break;
+      case 'Backspace':
+        this.gameStateManager.switchToMarquee();
+        break;
+    }
+  }
+
+  private handleKeyUp(event: KeyboardEvent): void {
+    switch (event.code) {
+      case 'KeyW':
+      case 'ArrowUp':
+        this.input.forward = false;
+        break;
+      case 'KeyS':
+      case 'ArrowDown':
+        this.input.backward = false;
+        break;
+      case 'KeyA':
+      case 'ArrowLeft':
+        this.input.left = false;
+        break;
+      case 'KeyD':
+      case 'ArrowRight':
+        this.input.right = false;
+        break;
+      case 'Space':
+        this.input.fire = false;
+        break;
+      case 'KeyC':
+        this.descend = false;
+        break;
+    }
+  }
+
+  private handleMouseDown(event: MouseEvent): void {
+    // The first click captures the mouse for the fly camera
+    if (!this.flyCamera.enabled) {
+      this.flyCamera.enable();
+      return;
+    }
+
+    const target = this.getTarget();
+    if (!target) return;
+
+    if (event.button === 0) {
+      this.applyTool(target.place);
+    } else if (event.button === 2) {
+      this.eraseWithTool(target.hit, target.place);
+    }
+  }
+
+  // Left click: build with the current tool
+  private applyTool(place: VoxelCoord): void {
+    switch (this.tool) {
+      case EditorTool.VOXEL:
+        this.voxelWorld.setVoxel(place, EDITOR_MATERIALS[this.materialIndex]);
+        break;
+      case EditorTool.PREFAB:
+        voxelPrefabs[this.prefabIndex].create(this.voxelWorld, place.x, place.z, this.random);
+        break;
+      case EditorTool.PLAYER_SPAWN:
+        this.spawns.player = { ...place };
+        break;
+      case EditorTool.ENEMY_SPAWN:
+        this.spawns.enemies.push({ ...place });
+        break;
+    }
+    this.updateSpawnMarkers();
+    this.updateHud();
+  }
+
+  // Right click: remove the targeted voxel, or the nearest spawn point for the spawn tools
+  private eraseWithTool(hit: VoxelCoord | null, place: VoxelCoord): void {
+    const isNear = (spawn: VoxelCoord) =>
+      Math.abs(spawn.x - place.x) <= 2 && Math.abs(spawn.y - place.y) <= 2 && Math.abs(spawn.z - place.z) <= 2;
+
+    switch (this.tool) {
+      case EditorTool.VOXEL:
+      case EditorTool.PREFAB:
+        if (hit) {
+          this.voxelWorld.setVoxel(hit, undefined);
+        }
+        break;
+      case EditorTool.PLAYER_SPAWN:
+        if (this.spawns.player && isNear(this.spawns.player)) {
+          this.spawns.player = null;
+        }
+        break;
+      case EditorTool.ENEMY_SPAWN: {
+        const index = this.spawns.enemies.findIndex(isNear);
+        if (index !== -1) {
+          this.spawns.enemies.splice(index, 1);
+        }
+        break;
+      }
+    }
+    this.updateSpawnMarkers();
+    this.updateHud();
+  }
+
+  // Step through materials or prefabs, depending on the tool
+  private cycleSelection(direction: number): void {
+    if (direction === 0) return;
+
+    if (this.tool === EditorTool.PREFAB) {
+      this.prefabIndex = (this.prefabIndex + direction + voxelPrefabs.length) % voxelPrefabs.length;
+    } else {
+      this.materialIndex = (this.materialIndex + direction + EDITOR_MATERIALS.length) % EDITOR_MATERIALS.length;
+    }
+    this.updateHud();
+  }
+
+  // Replace the world with a generated arena, the same one PlayState builds for this seed
+  private generateArena(seed: number): void {
+    this.voxelWorld.clear();
+    const halfWorldSize = this.config.worldSize / 2 - 20;
+    createVoxelStructures(this.voxelWorld, halfWorldSize, createRandomStream(seed, RandomStream.ARENA), getArenaLayoutFromUrl() ?? undefined);
+    this.voxelWorld.flushRebuilds();
+    this.voxelWorld.sleepSimulations();
+  }
+
+  /**
+   * Find what the crosshair points at
+   * @returns The voxel hit (null when pointing at the ground) and the empty cell in front of it
+   */
+  private getTarget(): { hit: VoxelCoord | null, place: VoxelCoord } | null {
+    const direction = new THREE.Vector3();
+    this.camera.getWorldDirection(direction);
+
+    // Voxel meshes are centered on integer coordinates while the raycast grid starts at them,
+    // so shift the ray by half a voxel to line the two up
+    const origin = this.camera.position.clone().addScalar(0.5);
+    const result = this.voxelWorld.raycast(origin, direction, EDIT_DISTANCE);
+    if (result.voxel) {
+      const normal = result.normal ?? { x: 0, y: 0, z: 0 };
+      return {
+        hit: result.voxel,
+        place: {
+          x: result.voxel.x + normal.x,
+          y: result.voxel.y + normal.y,
+          z: result.voxel.z + normal.z
+        }
+      };
+    }
+
+    // Otherwise build on the ground plane
+    if (direction.y >= 0) return null;
+    const distance = -this.camera.position.y / direction.y;
+    if (distance > EDIT_DISTANCE) return null;
+    const point = this.camera.position.clone().addScaledVector(direction, distance);
+    return { hit: null, place: { x: Math.round(point.x), y: 0, z: Math.round(point.z) } };
+  }
+
+  private updateCursor(): void {
+    const target = this.flyCamera.enabled ? this.getTarget() : null;
+    if (!target) {
+      this.cursor.visible = false;
+      return;
+    }
+
+    this.cursor.visible = true;
+    this.cursor.position.set(target.place.x, target.place.y, target.place.z);
+    const material = this.cursor.material as THREE.LineBasicMaterial;
+    material.color.setHex(this.tool === EditorTool.VOXEL ? voxelProperties[EDITOR_MATERIALS[this.materialIndex]].color : 0xffffff);
+  }
+
+  // Rebuild the cone markers for the player (green) and enemy (red) spawn points
+  private updateSpawnMarkers(): void {
+    this.spawnMarkers.clear();
+
+    const addMarker = (spawn: VoxelCoord, material: THREE.MeshBasicMaterial) => {
+      const marker = new THREE.Mesh(this.markerGeometry, material);
+      marker.position.set(spawn.x, spawn.y + 0.25, spawn.z);
+      this.spawnMarkers.add(marker);
+    };
+
+    if (this.spawns.player) {
+      addMarker(this.spawns.player, this.playerMarkerMaterial);
+    }
+    this.spawns.enemies.forEach(spawn => addMarker(spawn, this.enemyMarkerMaterial));
+  }
+
+  private updateHud(): void {
+    const selection = this.tool === EditorTool.PREFAB
+      ? `Prefab: ${voxelPrefabs[this.prefabIndex].name}`
+      : `Material: ${VoxelMaterial[EDITOR_MATERIALS[this.materialIndex]]}`;
+
+    this.hud.innerHTML = `LEVEL EDITOR<br>` +
+      `Tool: ${this.tool}<br>` +
+      `${selection}<br>` +
+      `Player spawn: ${this.spawns.player ? 'set' : 'none'} | Enemy spawns: ${this.spawns.enemies.length}<br>` +
+      `<br>` +
+      `Click: capture mouse / apply tool<br>` +
+      `Right click: remove<br>` +
+      `WASD: move | Space/C: up/down<br>` +
+      `1-4: voxel, prefab, player spawn, enemy spawn<br>` +
+      `Wheel or [ ]: change material/prefab<br>` +
+      `M: save map | Enter: play-test<br>` +
+      `G: new arena | N: clear | Backspace: exit`;
+  }
+}
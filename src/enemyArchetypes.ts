@@ -0,0 +1,172 @@
+import { EnemyTank } from './enemyTank';
+import { BehaviorNode } from './behaviorTree';
+import { createDefaultEnemyBehavior, createRangedEnemyBehavior } from './enemyBehaviors';
+import { RandomGenerator } from './random';
+import { SquadRole } from './squad';
+import { WeaponDefinition, weaponDefinitions } from './weapons';
+
+// Data describing one kind of enemy tank: its looks, stats and AI tuning
+export interface EnemyArchetype {
+  name: string;
+  color: number;
+  dimensions: { width: number, height: number, depth: number };
+  // Stats (before level scaling)
+  hitpoints: number;
+  speed: number;
+  turnSpeed: number;
+  weapon: WeaponDefinition; // Lobbed shells ignore its muzzle velocity and work out their own from the target distance
+  lobAngle: number | null; // Launch elevation in radians for artillery that arcs its shells onto the target
+  // AI tuning
+  detectionRange: number;
+  firingRange: number;
+  accuracy: { min: number, max: number }; // Each tank rolls its accuracy (0-1) within this range
+  maxInaccuracy: number;   // Maximum inaccuracy in radians
+  leadSkill: number;       // How much of the player's movement to lead (0-1)
+  patrolRadius: number;
+  createBehavior: () => BehaviorNode<EnemyTank>;
+  squadRole: SquadRole | null; // Role always taken in a squad, or null to let the squad assign one
+  // Level mix: spawn weight from minLevel onwards, changing by weightPerLevel each level after
+  minLevel: number;
+  weight: number;
+  weightPerLevel: number;
+}
+
+export const enemyArchetypes: Record<'standard' | 'scout' | 'heavy' | 'artillery' | 'sniper', EnemyArchetype> = {
+  // The original all-rounder
+  standard: {
+    name: 'Standard',
+    color: 0xff0000,
+    dimensions: { width: 2, height: 0.75, depth: 3 },
+    hitpoints: 10,
+    speed: 100,
+    turnSpeed: 2,
+    weapon: { ...weaponDefinitions.standard, damage: 10, cooldown: 500, muzzleVelocity: 150 },
+    lobAngle: null,
+    detectionRange: 500,
+    firingRange: 30,
+    accuracy: { min: 0.7, max: 0.95 },
+    maxInaccuracy: 0.12,
+    leadSkill: 0.6,
+    patrolRadius: 50,
+    createBehavior: createDefaultEnemyBehavior,
+    squadRole: null,
+    minLevel: 1,
+    weight: 6,
+    weightPerLevel: -0.25
+  },
+  // Fast and fragile, harasses from close range
+  scout: {
+    name: 'Scout',
+    color: 0xff8800,
+    dimensions: { width: 1.6, height: 0.6, depth: 2.4 },
+    hitpoints: 6,
+    speed: 160,
+    turnSpeed: 3,
+    weapon: { ...weaponDefinitions.standard, damage: 5, cooldown: 350, muzzleVelocity: 150 },
+    lobAngle: null,
+    detectionRange: 500,
+    firingRange: 20,
+    accuracy: { min: 0.6, max: 0.8 },
+    maxInaccuracy: 0.15,
+    leadSkill: 0.3,
+    patrolRadius: 80,
+    createBehavior: createDefaultEnemyBehavior,
+    squadRole: null,
+    minLevel: 2,
+    weight: 2,
+    weightPerLevel: 0.5
+  },
+  // Slow and armored, hits hard
+  heavy: {
+    name: 'Heavy',
+    color: 0x8b0000,
+    dimensions: { width: 2.6, height: 1.0, depth: 3.8 },
+    hitpoints: 25,
+    speed: 60,
+    turnSpeed: 1.2,
+    weapon: { ...weaponDefinitions.standard, damage: 14, cooldown: 1200, muzzleVelocity: 150 },
+    lobAngle: null,
+    detectionRange: 400,
+    firingRange: 35,
+    accuracy: { min: 0.75, max: 0.9 },
+    maxInaccuracy: 0.1,
+    leadSkill: 0.5,
+    patrolRadius: 30,
+    createBehavior: createDefaultEnemyBehavior,
+    squadRole: null,
+    minLevel: 3,
+    weight: 1,
+    weightPerLevel: 0.5
+  },
+  // Keeps its distance and lobs shells over cover
+  artillery: {
+    name: 'Artillery',
+    color: 0xaa00aa,
+    dimensions: { width: 2.2, height: 0.8, depth: 3.4 },
+    hitpoints: 8,
+    speed: 70,
+    turnSpeed: 1.5,
+    weapon: { ...weaponDefinitions.highExplosive, damage: 12, cooldown: 2500 },
+    lobAngle: Math.PI * 50 / 180,
+    detectionRange: 500,
+    firingRange: 80,
+    accuracy: { min: 0.6, max: 0.8 },
+    maxInaccuracy: 0.2,
+    leadSkill: 0.5,
+    patrolRadius: 40,
+    createBehavior: createRangedEnemyBehavior,
+    squadRole: SquadRole.SUPPRESSOR,
+    minLevel: 5,
+    weight: 1,
+    weightPerLevel: 0.25
+  },
+  // Long range, high accuracy, slow to reload
+  sniper: {
+    name: 'Sniper',
+    color: 0xcc3366,
+    dimensions: { width: 1.8, height: 0.7, depth: 3.2 },
+    hitpoints: 7,
+    speed: 90,
+    turnSpeed: 2,
+    weapon: { ...weaponDefinitions.armorPiercing, damage: 12, cooldown: 2000, muzzleVelocity: 250, gravityScale: 0.5 },
+    lobAngle: null,
+    detectionRange: 500,
+    firingRange: 90,
+    accuracy: { min: 0.92, max: 0.99 },
+    maxInaccuracy: 0.05,
+    leadSkill: 0.95,
+    patrolRadius: 40,
+    createBehavior: createRangedEnemyBehavior,
+    squadRole: SquadRole.SUPPRESSOR,
+    minLevel: 4,
+    weight: 1,
+    weightPerLevel: 0.25
+  }
+};
+
+// Spawn weight of an archetype at the given level
+export function getArchetypeWeight(archetype: EnemyArchetype, level: number): number {
+  if (level < archetype.minLevel) return 0;
+  return Math.max(0, archetype.weight + (level - archetype.minLevel) * archetype.weightPerLevel);
+}
+
+/**
+ * Picks the archetype for a new enemy using the level's weighted mix
+ */
+export function pickEnemyArchetype(level: number, random: RandomGenerator): EnemyArchetype {
+  const archetypes = Object.values(enemyArchetypes);
+  const weights = archetypes.map(archetype => getArchetypeWeight(archetype, level));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) {
+    return enemyArchetypes.standard;
+  }
+
+  let roll = random() * total;
+  for (let i = 0; i < archetypes.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) {
+      return archetypes[i];
+    }
+  }
+  return archetypes[archetypes.length - 1];
+}
@@ -0,0 +1,139 @@
+import { EnemyTank } from './enemyTank';
+import {
+  BehaviorNode,
+  Sequence,
+  Selector,
+  AlwaysSucceed,
+  Cooldown,
+  Condition,
+  Action
+} from './behaviorTree';
+import { SquadRole } from './squad';
+
+/**
+ * Building blocks for enemy tank behavior trees. Each function returns a fresh
+ * node, since some nodes (like cooldowns) keep per-tank state; compose them into
+ * new personalities the way createDefaultEnemyBehavior does.
+ */
+
+// Back up and kick free when avoidance hasn't got the tank moving again
+export function recoverWhenStuck(): BehaviorNode<EnemyTank> {
+  return new Sequence(
+    new Condition(tank => tank.isPersistentlyStuck()),
+    new Action(tank => tank.attemptRecoveryManeuver())
+  );
+}
+
+// Steer around an obstacle, still keeping an eye out for the player
+export function avoidObstacles(): BehaviorNode<EnemyTank> {
+  return new Sequence(
+    new Condition(tank => tank.isAvoidingObstacles()),
+    new AlwaysSucceed(new Condition(tank => tank.lookForPlayer())),
+    new Action(tank => tank.handleAvoidance())
+  );
+}
+
+// Drive straight at the player while they're in sight
+export function chasePlayer(): BehaviorNode<EnemyTank> {
+  return new Sequence(
+    new Condition(tank => tank.lookForPlayer()),
+    new Action(tank => tank.chasePlayer())
+  );
+}
+
+// Engage a visible player according to the tank's squad role
+export function engagePlayer(): BehaviorNode<EnemyTank> {
+  return new Sequence(
+    new Condition(tank => tank.lookForPlayer()),
+    new Selector(
+      new Sequence(
+        new Condition(tank => tank.role === SquadRole.FLANKER),
+        new Action(tank => tank.flankPlayer())
+      ),
+      new Sequence(
+        new Condition(tank => tank.role === SquadRole.SUPPRESSOR),
+        new Condition(tank => tank.isPlayerInFiringRange()),
+        new Action(tank => tank.facePlayer())
+      ),
+      new Action(tank => tank.chasePlayer())
+    )
+  );
+}
+
+// Close in on a visible player until they're within firing range, then stop and turn to face them
+export function engagePlayerFromRange(): BehaviorNode<EnemyTank> {
+  return new Sequence(
+    new Condition(tank => tank.lookForPlayer()),
+    new Selector(
+      new Sequence(
+        new Condition(tank => tank.isPlayerInFiringRange()),
+        new Action(tank => tank.facePlayer())
+      ),
+      new Action(tank => tank.chasePlayer())
+    )
+  );
+}
+
+// Head for where the player was last seen, by this tank or anyone else in the squad
+export function searchLastKnownPosition(): BehaviorNode<EnemyTank> {
+  return new Sequence(
+    new AlwaysSucceed(new Condition(tank => tank.receiveSquadSighting())),
+    new Condition(tank => tank.hasLastKnownPositionToSearch()),
+    new Action(tank => tank.searchLastKnownPosition())
+  );
+}
+
+// Give up on the player and wander between patrol points
+export function patrol(): BehaviorNode<EnemyTank> {
+  return new Sequence(
+    new Action(tank => tank.forgetPlayer()),
+    new Action(tank => tank.handlePatrol())
+  );
+}
+
+// Keep the turret on the lead aim point while the player's in sight
+export function aimAtPlayer(): BehaviorNode<EnemyTank> {
+  return new Action(tank => tank.aimTurret());
+}
+
+// Take a shot at the player every AI update while they're in sight
+export function fireAtPlayer(): BehaviorNode<EnemyTank> {
+  return new Cooldown(
+    tank => tank.aiUpdateInterval,
+    new Sequence(
+      new Condition(tank => tank.hasLineOfSight),
+      new Action(tank => tank.checkAndFireAtPlayer())
+    )
+  );
+}
+
+// The standard enemy: patrols until it or its squad spots the player, engages them in its squad role,
+// and searches where they were last seen
+export function createDefaultEnemyBehavior(): BehaviorNode<EnemyTank> {
+  return new Sequence(
+    new AlwaysSucceed(new Selector(
+      recoverWhenStuck(),
+      avoidObstacles(),
+      engagePlayer(),
+      searchLastKnownPosition(),
+      patrol()
+    )),
+    new AlwaysSucceed(aimAtPlayer()),
+    new AlwaysSucceed(fireAtPlayer())
+  );
+}
+
+// Long range tanks (snipers, artillery): like the default, but hold their distance once in range
+export function createRangedEnemyBehavior(): BehaviorNode<EnemyTank> {
+  return new Sequence(
+    new AlwaysSucceed(new Selector(
+      recoverWhenStuck(),
+      avoidObstacles(),
+      engagePlayerFromRange(),
+      searchLastKnownPosition(),
+      patrol()
+    )),
+    new AlwaysSucceed(aimAtPlayer()),
+    new AlwaysSucceed(fireAtPlayer())
+  );
+}
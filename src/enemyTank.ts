@@ -1,15 +1,20 @@
 import * as THREE from 'three';
 import { Tank } from './tank';
 import { PlayState } from './playState';
-import { Projectile, ProjectileSource } from './projectile';
+import { ProjectileSource } from './projectile';
 import { voxelToWorld } from './voxel';
+import { BehaviorNode } from './behaviorTree';
+import { EnemyArchetype, enemyArchetypes } from './enemyArchetypes';
+import { SquadRole } from './squad';
+import { Weapon } from './weapons';
+import { computeLeadAimPoint, lobFlightTime, lobLaunchSpeed, solveElevation } from './ballistics';
 
 export class EnemyTank extends Tank {
+  readonly archetype: EnemyArchetype;
   targetPosition: THREE.Vector3 | null = null;
   detectionRange: number;
   firingRange: number;
-  lastAIUpdate: number = 0;
-  aiUpdateInterval: number = 500;
+  aiUpdateInterval: number = 500; // How often the tank considers firing (ms)
   patrolRadius: number = 50;  // How far the tank will patrol from its current position
   minPatrolDistance: number = 20; // Minimum distance to move for patrol
   arrivalThreshold: number = 5; // How close we need to get to consider reaching patrol point
@@ -19,10 +24,25 @@ export class EnemyTank extends Tank {
   hasLineOfSight: boolean = false;
   trackingPlayer: boolean = false;
 
+  // Squad coordination
+  role: SquadRole;
+  private knownSightingTime: number = 0; // Time of the latest sighting this tank has acted on
+
   // New properties for varied targeting
   accuracy: number = 0.8; // Base accuracy (0-1), will be randomized per tank
   maxInaccuracy: number = 0.12; // Maximum inaccuracy in radians (about 7 degrees)
 
+  // Shell properties
+  lobAngle: number | null = null; // Launch elevation for shells arced onto the target, or null to fire straight
+
+  // Aiming
+  leadSkill: number = 0.6; // How much of the player's movement to lead (0 = aim at them, 1 = perfect intercept)
+  turretTurnSpeed: number = 2.5; // Turret traverse speed (radians per second)
+  aimTolerance: number = 0.08; // How far off the aim point the turret can be and still fire (radians)
+  private aimPoint: THREE.Vector3 | null = null;
+  private targetElevation: number = 0; // Barrel elevation that lands shells on the aim point
+  private frameDelta: number = 0;
+
   // Properties for obstacle avoidance
   private avoidanceDirection: THREE.Vector3 | null = null;
   private avoidanceTimer: number = 0;
@@ -33,19 +53,44 @@ export class EnemyTank extends Tank {
   private isStuck: boolean = false;
   private obstacleAvoidanceTime: number = 2000; // Time to maintain avoidance direction (ms)
 
-  constructor(playState: PlayState, position: THREE.Vector3) {
-    super(playState, position, 0xff0000); // Call base class constructor with red color
-
-    // Enemy-specific properties
-    this.speed = 100;  // Slower than player
-    this.turnSpeed = 2;  // Increased from 1 to 2 to compensate for the lower base turn speed
-    this.detectionRange = 500;
-    this.firingRange = 30;
-    this.hitpoints = 10; // Enemies have fewer hitpoints than the player
+  // Decides what the tank does each frame; swap in a different tree for a different personality
+  behavior: BehaviorNode<EnemyTank>;
+
+  // Path following on the navigation grid
+  private path: THREE.Vector3[] = [];
+  private pathIndex: number = 0;
+  private pathGoal: THREE.Vector3 | null = null; // Goal the current path was planned for
+  private pathRevision: number = -1; // Navigation grid revision the path was last checked against
+  private lastPathFailure: number = 0;
+  private pathRetryInterval: number = 1000; // Wait before planning again after a failed search (ms)
+  private waypointThreshold: number = 2; // How close we need to get to a waypoint to head for the next one
+
+  constructor(playState: PlayState, position: THREE.Vector3, archetype: EnemyArchetype = enemyArchetypes.standard) {
+    super(playState, position, archetype.color, archetype.dimensions);
+    this.archetype = archetype;
+
+    // Enemy-specific properties from the archetype
+    this.speed = archetype.speed;
+    this.turnSpeed = archetype.turnSpeed;
+    this.detectionRange = archetype.detectionRange;
+    this.firingRange = archetype.firingRange;
+    this.hitpoints = archetype.hitpoints;
+    this.maxHitpoints = archetype.hitpoints;
+    this.patrolRadius = archetype.patrolRadius;
+    this.maxInaccuracy = archetype.maxInaccuracy;
+    this.weapons = [new Weapon(archetype.weapon, Infinity)];
+    this.lobAngle = archetype.lobAngle;
+    if (this.lobAngle !== null) {
+      // Artillery barrels have to reach their lob angle
+      this.maxElevation = Math.max(this.maxElevation, this.lobAngle);
+    }
+    this.leadSkill = archetype.leadSkill;
+    this.behavior = archetype.createBehavior();
+    this.role = archetype.squadRole ?? SquadRole.CHASER;
 
     // Randomize accuracy for each tank to create variety
     // Some tanks will be more accurate than others
-    this.accuracy = 0.7 + Math.random() * 0.25; // Between 0.7 and 0.95
+    this.accuracy = archetype.accuracy.min + Math.random() * (archetype.accuracy.max - archetype.accuracy.min);
     
     // Initialize position tracking for stuck detection
     this.lastPosition.copy(position);
@@ -92,98 +137,28 @@ export class EnemyTank extends Tank {
     this.body.wakeUp();
   }
 
-  // Significantly improved generateNewPatrolPoint that avoids known obstacles
-  // and prioritizes accessible locations
+  // Pick a random reachable patrol point and plan the path to it on the navigation grid
   generateNewPatrolPoint(): void {
     const currentPos = this.mesh.position;
-    const maxAttempts = 16; // Increased attempt count for better results
-    
-    // Track all candidate points with their scores
-    const candidates: Array<{
-      point: THREE.Vector3;
-      score: number;
-      pathClearance: number;
-    }> = [];
-    
-    // Try multiple directions to find good patrol points
-    for (let attempts = 0; attempts < maxAttempts; attempts++) {
-      // Use a weighted distribution - favor middle distances over extremely close or far
-      // This helps avoid both getting stuck in tight spots and choosing unreachable distant points
-      const distanceFactor = Math.pow(Math.random(), 0.7); // Bias toward mid-range
-      const distance = this.minPatrolDistance + distanceFactor * (this.patrolRadius - this.minPatrolDistance);
-      
-      // Choose angle with some bias toward forward direction for more natural movement
-      let angle;
-      if (Math.random() > 0.3) {
-        // 70% of the time, choose a point generally ahead of the tank
-        const forward = new THREE.Vector3(0, 0, 1).applyQuaternion(this.mesh.quaternion);
-        const forwardAngle = Math.atan2(forward.x, forward.z);
-        angle = forwardAngle + (Math.random() - 0.5) * Math.PI; // +/- 90 degrees
-      } else {
-        // 30% of the time, choose a completely random direction
-        angle = Math.random() * Math.PI * 2;
-      }
-      
-      const potentialTarget = new THREE.Vector3(
+    const navigation = this.state.navigation;
+    const maxAttempts = 8;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const angle = Math.random() * Math.PI * 2;
+      const distance = this.minPatrolDistance + Math.random() * (this.patrolRadius - this.minPatrolDistance);
+      const candidate = navigation.findNearestWalkable(new THREE.Vector3(
         currentPos.x + Math.sin(angle) * distance,
-        0.4, // Keep Y position constant
+        0,
         currentPos.z + Math.cos(angle) * distance
-      );
-      
-      // Check if there's a clear path to this destination
-      const directionToTarget = new THREE.Vector3()
-        .subVectors(potentialTarget, currentPos)
-        .normalize();
-      
-      // Perform a more detailed check for obstacles
-      const pathDistance = Math.min(distance, 20); // Don't check the entire path for very long distances
-      
-      // If the potential target is inside a voxel or too close to an obstacle, skip it
-      const targetDistToObstacle = this.checkPointClearance(potentialTarget);
-      if (targetDistToObstacle < 3) {
-        continue; // Skip this candidate - it's inside or too close to an obstacle
+      ), 4);
+      if (!candidate) continue;
+
+      const path = navigation.findPath(currentPos, candidate);
+      if (path) {
+        this.targetPosition = new THREE.Vector3(candidate.x, 0.4, candidate.z);
+        this.setPath(path, this.targetPosition);
+        return;
       }
-      
-      // Check for direct path obstruction
-      const hasDirectObstacle = this.hasObstacleInDirection(directionToTarget, pathDistance);
-      
-      // Calculate path clearance (max distance to obstacles along path)
-      const pathClearance = hasDirectObstacle ? 0 : this.getPathClearance(currentPos, potentialTarget);
-      
-      // Calculate a score for this candidate point
-      let score = 0;
-      
-      // Base score is related to the distance - prefer points that aren't too close or too far
-      const normalizedDistance = (distance - this.minPatrolDistance) / (this.patrolRadius - this.minPatrolDistance);
-      const distanceScore = 1 - Math.abs(normalizedDistance - 0.5) * 2; // Peak at middle distances
-      score += distanceScore * 20;
-      
-      // Higher score for points with clear paths
-      score += pathClearance * 10;
-      
-      // Bonus for points that are in open areas (away from obstacles)
-      score += targetDistToObstacle * 5;
-      
-      // Big penalty if there's a direct obstacle
-      if (hasDirectObstacle) {
-        score -= 50;
-      }
-      
-      // Add to candidates
-      candidates.push({
-        point: potentialTarget,
-        score: score,
-        pathClearance: pathClearance
-      });
-    }
-    
-    // Sort candidates by score
-    candidates.sort((a, b) => b.score - a.score);
-    
-    // If we have any candidates with decent paths, use the best one
-    if (candidates.length > 0 && candidates[0].score > -20) {
-      this.targetPosition = candidates[0].point;
-      return;
     }
     
     // If all attempts fail, choose a closer destination as fallback
@@ -197,78 +172,67 @@ export class EnemyTank extends Tank {
       currentPos.z + Math.cos(fallbackAngle) * fallbackDistance
     );
   }
-  
-  // Helper method to check if a point has enough clearance (not inside obstacles)
-  private checkPointClearance(point: THREE.Vector3): number {
-    // Check in multiple directions from this point to find closest obstacle
-    const directions = [
-      new THREE.Vector3(1, 0, 0),
-      new THREE.Vector3(-1, 0, 0),
-      new THREE.Vector3(0, 0, 1),
-      new THREE.Vector3(0, 0, -1),
-      new THREE.Vector3(0.7, 0, 0.7),
-      new THREE.Vector3(0.7, 0, -0.7),
-      new THREE.Vector3(-0.7, 0, 0.7),
-      new THREE.Vector3(-0.7, 0, -0.7)
-    ];
-    
-    // Start position for checking should be slightly above ground
-    const checkPoint = point.clone().add(new THREE.Vector3(0, 0.8, 0));
-    
-    let minDistance = 20; // Max check distance
-    
-    // Check all directions
-    for (const dir of directions) {
-      // Check voxels
-      const voxelResult = this.state.voxelWorld.raycast(checkPoint, dir, 8);
-      if (voxelResult.voxel !== null) {
-        const pos = voxelToWorld(voxelResult.voxel);
-        const dist = checkPoint.distanceTo(pos);
-        minDistance = Math.min(minDistance, dist);
-      }
-      
-      // Check other obstacles
-      const ray = new THREE.Raycaster(checkPoint, dir, 0, 8);
-      
-      // Get obstacle meshes
-      const obstacles = this.state.terrain.filter(obj =>
-        obj !== this.state.terrain[this.state.terrain.length - 1] && // Exclude ground
-        obj.mesh instanceof THREE.Mesh
-      );
-      
-      const obstacleMeshes = obstacles.map(obj => obj.mesh);
-      const hits = ray.intersectObjects(obstacleMeshes, false);
-      
-      if (hits.length > 0) {
-        minDistance = Math.min(minDistance, hits[0].distance);
+
+  /**
+   * Drive along a planned path towards the goal, planning a new one when the goal
+   * moves or terrain changes block the rest of the current path
+   * @returns False if no path to the goal could be found, so the caller can fall back to steering directly
+   */
+  followPath(goal: THREE.Vector3, tankPosition: THREE.Vector3): boolean {
+    const navigation = this.state.navigation;
+
+    if (!this.pathGoal || horizontalDistance(this.pathGoal, goal) > this.arrivalThreshold) {
+      if (!this.planPath(goal, tankPosition)) return false;
+    } else if (this.pathRevision !== navigation.revision) {
+      // Terrain changed since the path was checked - only replan if what's left of it is now blocked
+      this.pathRevision = navigation.revision;
+      if (!navigation.isPathClear(tankPosition, this.path.slice(this.pathIndex)) && !this.planPath(goal, tankPosition)) {
+        return false;
       }
     }
-    
-    return minDistance;
+
+    // Move on past the waypoints we've reached
+    while (this.pathIndex < this.path.length &&
+      horizontalDistance(tankPosition, this.path[this.pathIndex]) < this.waypointThreshold) {
+      this.pathIndex++;
+    }
+
+    // After the last waypoint, close the remaining distance to the goal directly
+    const waypoint = this.pathIndex < this.path.length ? this.path[this.pathIndex] : goal;
+    this.handleMovement(new THREE.Vector3(waypoint.x, tankPosition.y, waypoint.z), tankPosition);
+    return true;
   }
-  
-  // Helper to check path clearance by sampling points along the path
-  private getPathClearance(start: THREE.Vector3, end: THREE.Vector3): number {
-    const direction = new THREE.Vector3().subVectors(end, start).normalize();
-    const distance = start.distanceTo(end);
-    
-    // Sample several points along the path
-    const samples = 5;
-    let minClearance = Infinity;
-    
-    for (let i = 1; i < samples; i++) {
-      const t = i / samples;
-      const samplePoint = new THREE.Vector3().addVectors(
-        start,
-        direction.clone().multiplyScalar(distance * t)
-      );
-      
-      // Check clearance at this point
-      const clearance = this.checkPointClearance(samplePoint);
-      minClearance = Math.min(minClearance, clearance);
+
+  // Forget the current path so the next followPath call plans a fresh one
+  clearPath(): void {
+    this.path = [];
+    this.pathIndex = 0;
+    this.pathGoal = null;
+  }
+
+  private planPath(goal: THREE.Vector3, tankPosition: THREE.Vector3): boolean {
+    // Don't retry an unreachable goal every frame
+    const currentTime = Date.now();
+    if (currentTime - this.lastPathFailure < this.pathRetryInterval) {
+      return false;
     }
-    
-    return minClearance;
+
+    const path = this.state.navigation.findPath(tankPosition, goal);
+    if (!path) {
+      this.lastPathFailure = currentTime;
+      this.clearPath();
+      return false;
+    }
+
+    this.setPath(path, goal);
+    return true;
+  }
+
+  private setPath(path: THREE.Vector3[], goal: THREE.Vector3): void {
+    this.path = path;
+    this.pathIndex = 0;
+    this.pathGoal = goal.clone();
+    this.pathRevision = this.state.navigation.revision;
   }
 
   handlePatrol(): void {
@@ -286,7 +250,12 @@ export class EnemyTank extends Tank {
       return;
     }
 
-    // Check for obstacles in the path to target
+    // Follow the planned path to the patrol point
+    if (this.followPath(this.targetPosition, tankPosition)) {
+      return;
+    }
+
+    // No path (e.g. a fallback patrol point) - steer straight for it and avoid obstacles on the way
     const directionToTarget = new THREE.Vector3()
       .subVectors(this.targetPosition, tankPosition)
       .normalize();
@@ -402,7 +371,6 @@ export class EnemyTank extends Tank {
     }
 
     const currentTime = Date.now();
-    const timeSinceLastUpdate = currentTime - this.lastAIUpdate;
     
     // Check if we're stuck every few frames
     if (currentTime - this.lastStuckCheck > this.stuckCheckInterval) {
@@ -410,100 +378,155 @@ export class EnemyTank extends Tank {
       this.lastPosition.copy(this.mesh.position);
       this.lastStuckCheck = currentTime;
       
-      // If we're stuck, start avoidance behavior
+      // If we're stuck, start avoidance behavior and plan a fresh path afterwards
       if (this.isStuck) {
         this.avoidanceDirection = null; // Force finding a new direction
         this.avoidanceTimer = currentTime + this.obstacleAvoidanceTime;
+        this.clearPath();
       }
     }
-    
+
+    this.frameDelta = delta;
+    this.behavior.tick(this);
+  }
+
+  // Whether we're stuck or still committed to steering around an obstacle
+  isAvoidingObstacles(): boolean {
+    return this.isStuck || Date.now() < this.avoidanceTimer;
+  }
+
+  // How far away the player can be spotted right now; shorter at night
+  getDetectionRange(): number {
+    return this.detectionRange * this.state.dayNight.detectionMultiplier;
+  }
+
+  /**
+   * Check whether the player is within detection range and in line of sight,
+   * remembering where they were seen
+   * @returns True if the player is visible
+   */
+  lookForPlayer(): boolean {
     const playerPosition = this.state.player.mesh.position;
     const tankPosition = this.mesh.position;
 
-    // Calculate distance to player
-    const distanceToPlayer = playerPosition.distanceTo(tankPosition);
+    this.hasLineOfSight = playerPosition.distanceTo(tankPosition) < this.getDetectionRange() &&
+      this.checkLineOfSight(playerPosition, tankPosition);
 
-    // Check if we're persistently stuck and need more drastic measures
-    if (this.isPersistentlyStuck()) {
-      // Try a recovery maneuver to get unstuck
-      this.attemptRecoveryManeuver();
+    if (this.hasLineOfSight) {
+      this.playerLastKnownPosition = playerPosition.clone();
+      this.trackingPlayer = true;
+
+      // Let the rest of the squad know
+      this.state.squad.reportPlayerSighting(playerPosition);
+      this.knownSightingTime = this.state.squad.lastSightingTime;
     }
-    // If we're stuck, prioritize obstacle avoidance over normal behavior
-    else if (this.isStuck || Date.now() < this.avoidanceTimer) {
-      this.handleAvoidance();
-      
-      // Still update player detection and line of sight
-      this.hasLineOfSight = distanceToPlayer < this.detectionRange ? 
-        this.checkLineOfSight(playerPosition, tankPosition) : false;
-      
-      if (this.hasLineOfSight) {
-        this.playerLastKnownPosition = playerPosition.clone();
-        this.trackingPlayer = true;
-      }
+    return this.hasLineOfSight;
+  }
+
+  /**
+   * Pick up a sighting of the player reported by another tank if it's newer than
+   * anything we know and within our detection range
+   * @returns True if we started hunting the reported position
+   */
+  receiveSquadSighting(): boolean {
+    const squad = this.state.squad;
+    if (!squad.hasRecentSighting() || squad.lastSightingTime <= this.knownSightingTime) {
+      return false;
     }
-    // Normal behavior when not avoiding obstacles
-    else {
-      // Check if player is within detection range
-      if (distanceToPlayer < this.detectionRange) {
-        // Check if we have line of sight to the player
-        this.hasLineOfSight = this.checkLineOfSight(playerPosition, tankPosition);
-
-        if (this.hasLineOfSight) {
-          // We can see the player, update the last known position
-          this.playerLastKnownPosition = playerPosition.clone();
-          this.trackingPlayer = true;
-
-          // Engage with player directly
-          this.handleMovement(playerPosition, tankPosition);
-        } else if (this.trackingPlayer && this.playerLastKnownPosition) {
-          // We've lost sight but were tracking - move to last known position
-          const distanceToLastKnown = tankPosition.distanceTo(this.playerLastKnownPosition);
-
-          if (distanceToLastKnown < this.arrivalThreshold) {
-            // We've reached the last known position but player isn't visible
-            // Resume patrol behavior
-            this.trackingPlayer = false;
-            this.playerLastKnownPosition = null;
-            this.targetPosition = null; // Will generate new patrol point
-            this.handlePatrol();
-          } else {
-            // Check if path to last known position is blocked
-            if (this.isPathToPlayerBlocked()) {
-              // Path is blocked, activate avoidance behavior
-              this.isStuck = true;
-              this.avoidanceDirection = null;
-              this.avoidanceTimer = Date.now() + this.obstacleAvoidanceTime;
-              this.handleAvoidance();
-            } else {
-              // Move to last known position
-              this.handleMovement(this.playerLastKnownPosition, tankPosition);
-            }
-          }
-        } else {
-          // Player in range but not visible and not tracking - continue patrol
-          this.handlePatrol();
-        }
-      } else {
-        // Player out of detection range - reset tracking and patrol
-        if (this.trackingPlayer) {
-          this.trackingPlayer = false;
-          this.playerLastKnownPosition = null;
-          this.targetPosition = null; // Will generate new patrol point
-        }
 
-        // Continue standard patrol behavior
-        this.handlePatrol();
-      }
+    this.knownSightingTime = squad.lastSightingTime;
+    if (squad.playerLastKnownPosition!.distanceTo(this.mesh.position) >= this.getDetectionRange()) {
+      return false;
     }
 
-    // Update AI behavior at fixed intervals
-    if (timeSinceLastUpdate >= this.aiUpdateInterval) {
-      // Only check to fire if we have line of sight to the player
-      if (this.hasLineOfSight) {
-        this.checkAndFireAtPlayer();
-      }
+    this.playerLastKnownPosition = squad.playerLastKnownPosition!.clone();
+    this.trackingPlayer = true;
+    return true;
+  }
+
+  // Engage with the player directly
+  chasePlayer(): void {
+    this.handleMovement(this.state.player.mesh.position, this.mesh.position);
+  }
+
+  // Swing round to the flank point the squad gave us, then turn in on the player
+  flankPlayer(): void {
+    const playerPosition = this.state.player.mesh.position;
+    const tankPosition = this.mesh.position;
+    const flankPoint = this.state.squad.getApproachPoint(this, playerPosition);
 
-      this.lastAIUpdate = currentTime;
+    if (horizontalDistance(tankPosition, flankPoint) < this.arrivalThreshold) {
+      this.handleMovement(playerPosition, tankPosition);
+    } else if (!this.followPath(flankPoint, tankPosition)) {
+      this.handleMovement(flankPoint, tankPosition);
+    }
+  }
+
+  isPlayerInFiringRange(): boolean {
+    return this.state.player.mesh.position.distanceTo(this.mesh.position) < this.firingRange;
+  }
+
+  // Turn in place to face the player without closing the distance
+  facePlayer(): void {
+    const forward = new THREE.Vector3(0, 0, 1).applyQuaternion(this.mesh.quaternion);
+    const directionToPlayer = new THREE.Vector3()
+      .subVectors(this.state.player.mesh.position, this.mesh.position)
+      .setY(0)
+      .normalize();
+
+    if (forward.angleTo(directionToPlayer) > 0.05) {
+      this.turn(this.calculateTurnDirection(forward, directionToPlayer));
+    }
+  }
+
+  // Whether we lost sight of the player and haven't reached where they were last seen yet
+  hasLastKnownPositionToSearch(): boolean {
+    if (!this.trackingPlayer || !this.playerLastKnownPosition) {
+      return false;
+    }
+
+    // Only keep searching while the player is still within detection range
+    const tankPosition = this.mesh.position;
+    return this.state.player.mesh.position.distanceTo(tankPosition) < this.getDetectionRange() &&
+      horizontalDistance(tankPosition, this.getSearchGoal(this.playerLastKnownPosition)) >= this.arrivalThreshold;
+  }
+
+  // Move towards the player's last known position, on a planned path if there is one
+  searchLastKnownPosition(): void {
+    const tankPosition = this.mesh.position;
+    if (!this.playerLastKnownPosition) {
+      return;
+    }
+
+    const searchGoal = this.getSearchGoal(this.playerLastKnownPosition);
+    if (this.followPath(searchGoal, tankPosition)) {
+      return;
+    }
+
+    // No planned path to the last known position - fall back to steering straight there
+    if (this.isPathToPlayerBlocked()) {
+      // Path is blocked, activate avoidance behavior
+      this.isStuck = true;
+      this.avoidanceDirection = null;
+      this.avoidanceTimer = Date.now() + this.obstacleAvoidanceTime;
+      this.handleAvoidance();
+    } else {
+      // Move to last known position
+      this.handleMovement(searchGoal, tankPosition);
+    }
+  }
+
+  // Where to search for the player: the squad spreads tanks out around the last known position
+  private getSearchGoal(lastKnownPosition: THREE.Vector3): THREE.Vector3 {
+    return this.state.squad.getApproachPoint(this, lastKnownPosition);
+  }
+
+  // Stop tracking the player; the next patrol picks a fresh patrol point
+  forgetPlayer(): void {
+    if (this.trackingPlayer) {
+      this.trackingPlayer = false;
+      this.playerLastKnownPosition = null;
+      this.targetPosition = null; // Will generate new patrol point
     }
   }
 
@@ -513,39 +536,108 @@ export class EnemyTank extends Tank {
 
     const distanceToPlayer = playerPosition.distanceTo(tankPosition);
 
-    if (distanceToPlayer < this.firingRange) {
-      const forward = new THREE.Vector3(0, 0, 1).applyQuaternion(this.mesh.quaternion);
-      const directionToPlayer = new THREE.Vector3()
-        .subVectors(playerPosition, tankPosition)
-        .normalize();
-
-      const angleToPlayer = forward.angleTo(directionToPlayer);
+    // Only fire once the turret has swung onto the aim point
+    if (distanceToPlayer < this.firingRange && this.isTurretOnTarget()) {
+      this.fire();
+    }
+  }
 
-      if (Math.abs(angleToPlayer) < Math.PI / 8) {
-        this.fire();
+  /**
+   * Work out where to aim so shells meet the player, leading their movement as well
+   * as this tank's lead skill allows
+   */
+  computeAimPoint(): THREE.Vector3 {
+    const player = this.state.player;
+    const cannonPosition = new THREE.Vector3();
+    this.cannonMesh.getWorldPosition(cannonPosition);
+
+    const playerVel = player.body.linvel();
+    const leadVelocity = new THREE.Vector3(playerVel.x, 0, playerVel.z);
+
+    if (this.lobAngle !== null) {
+      // Lobbed shells don't inherit the tank's velocity; refine the lead a couple of times
+      // since the flight time depends on the range
+      const gravity = this.getShellGravity();
+      let aimPoint = player.mesh.position.clone();
+      for (let i = 0; i < 2; i++) {
+        const range = horizontalDistance(cannonPosition, aimPoint);
+        const flightTime = lobFlightTime(range, this.lobAngle, gravity);
+        aimPoint = player.mesh.position.clone().add(leadVelocity.clone().multiplyScalar(flightTime * this.leadSkill));
       }
+      return aimPoint;
+    }
+
+    // Straight shells carry the tank's own velocity, so lead on the relative velocity
+    const tankVel = this.body.linvel();
+    leadVelocity.sub(new THREE.Vector3(tankVel.x, 0, tankVel.z)).multiplyScalar(this.leadSkill);
+    return computeLeadAimPoint(cannonPosition, player.mesh.position, leadVelocity, this.weapon.definition.muzzleVelocity);
+  }
+
+  // Swing the turret and barrel towards the aim point while the player's in sight, or back to center otherwise
+  aimTurret(): void {
+    this.aimPoint = this.hasLineOfSight ? this.computeAimPoint() : null;
+
+    let targetRotation = 0;
+    this.targetElevation = 0;
+    if (this.aimPoint) {
+      // Bearing of the aim point in the hull's frame
+      const localAimPoint = this.mesh.worldToLocal(this.aimPoint.clone());
+      targetRotation = Math.atan2(localAimPoint.x, localAimPoint.z);
+      this.targetElevation = this.computeElevation(this.aimPoint);
     }
+
+    const current = this.turretContainer.rotation.y;
+    const maxStep = this.turretTurnSpeed * this.frameDelta;
+    const step = Math.max(-maxStep, Math.min(maxStep, targetRotation - current));
+    this.turretContainer.rotation.y = Math.max(-this.maxTurretRotation, Math.min(this.maxTurretRotation, current + step));
+
+    const currentElevation = this.getElevation();
+    const elevationStep = Math.max(-maxStep, Math.min(maxStep, this.targetElevation - currentElevation));
+    this.setElevation(currentElevation + elevationStep);
+  }
+
+  // Barrel elevation that drops a shell onto the aim point, allowing for gravity
+  private computeElevation(aimPoint: THREE.Vector3): number {
+    if (this.lobAngle !== null) {
+      return this.lobAngle;
+    }
+
+    const cannonPosition = new THREE.Vector3();
+    this.cannonMesh.getWorldPosition(cannonPosition);
+    const range = horizontalDistance(cannonPosition, aimPoint);
+    const elevation = solveElevation(range, aimPoint.y - cannonPosition.y, this.weapon.definition.muzzleVelocity, this.getShellGravity());
+
+    // Out of reach: the flattest arc with the most range is at 45°
+    return elevation ?? Math.PI / 4;
+  }
+
+  // Whether the turret is pointing at the aim point closely enough to take the shot
+  isTurretOnTarget(): boolean {
+    if (!this.aimPoint) return false;
+
+    const turretForward = new THREE.Vector3(0, 0, 1);
+    const turretWorldQuaternion = new THREE.Quaternion();
+    this.turretContainer.getWorldQuaternion(turretWorldQuaternion);
+    turretForward.applyQuaternion(turretWorldQuaternion).setY(0).normalize();
+
+    const directionToAim = new THREE.Vector3().subVectors(this.aimPoint, this.mesh.position).setY(0).normalize();
+    return turretForward.angleTo(directionToAim) < this.aimTolerance &&
+      Math.abs(this.getElevation() - this.targetElevation) < this.aimTolerance;
   }
 
   // Override the fire method to add inaccuracy
   fire(): void {
     if (!this.canFire) return;
 
-    // Calculate the cannon tip position in world space
-    const cannonWorldPosition = new THREE.Vector3();
-    this.cannonMesh.getWorldPosition(cannonWorldPosition);
+    // Fire along the barrel, which aimTurret has already elevated for the shot
+    const forward = this.getMuzzleDirection();
+    const cannonTip = this.getMuzzlePosition();
 
-    // Calculate forward direction based on turret's rotation
-    const forward = new THREE.Vector3(0, 0, 1);
-    const turretWorldQuaternion = new THREE.Quaternion();
-    this.turretContainer.getWorldQuaternion(turretWorldQuaternion);
-    forward.applyQuaternion(turretWorldQuaternion);
-    forward.normalize();
+    const aimPoint = this.aimPoint ?? this.state.player.mesh.position;
+    const distanceToPlayer = horizontalDistance(cannonTip, aimPoint);
 
     // Only add inaccuracy to enemy tanks (not the player)
     // Calculate distance-based accuracy reduction
-    const playerPosition = this.state.player.mesh.position;
-    const distanceToPlayer = cannonWorldPosition.distanceTo(playerPosition);
     const normalizedDistance = Math.min(distanceToPlayer / this.firingRange, 1);
 
     // As distance increases, accuracy decreases
@@ -565,34 +657,21 @@ export class EnemyTank extends Tank {
     // Apply deviation to forward direction
     forward.applyEuler(deviation);
 
-    // Position the projectile at the tip of the cannon
-    const cannonTip = cannonWorldPosition.clone().add(forward.clone().multiplyScalar(1.5));
-
     // Get tank's current velocity to add to projectile
     const tankVel = this.body.linvel();
-    const initialVelocity = new THREE.Vector3(tankVel.x, tankVel.y, tankVel.z);
-
-    // Create new projectile using the Projectile class with modified direction
-    const projectile = new Projectile(
-      this.state,
-      cannonTip,
-      forward.clone(),
-      initialVelocity,
-      ProjectileSource.ENEMY
-    );
-
-    // Add to physics world
-    this.state.physicsWorld.addBody(projectile);
-
-    // Add projectile to PlayState's projectiles array
-    this.state.projectiles.push(projectile);
+    let initialVelocity = new THREE.Vector3(tankVel.x, tankVel.y, tankVel.z);
+    let speed = this.weapon.definition.muzzleVelocity;
+
+    if (this.lobAngle !== null) {
+      // Arc the shell: pick the launch speed that lands it at the aim point's distance from
+      // the lob angle, with some range error
+      const range = distanceToPlayer * (1 + (Math.random() - 0.5) * inaccuracy * 2);
+      speed = lobLaunchSpeed(range, this.lobAngle, this.getShellGravity());
+      initialVelocity = new THREE.Vector3(); // Tank motion would throw off the arc
+    }
 
-    // Set cooldown
-    this.canFire = false;
-    this.lastFired = Date.now();
-    setTimeout(() => {
-      this.canFire = true;
-    }, 500); // 500ms cooldown between shots
+    // Fire the weapon with the modified direction; it handles its own reload
+    this.weapon.fire(this.state, cannonTip, forward, initialVelocity, ProjectileSource.ENEMY, speed);
   }
 
   // Override takeDamage to add visual feedback specific to enemy tanks
@@ -894,7 +973,7 @@ export class EnemyTank extends Tank {
   }
   
   // Enhanced method to handle obstacle avoidance movement
-  private handleAvoidance(): void {
+  handleAvoidance(): void {
     const currentTime = Date.now();
     
     // If still stuck for too long, try more drastic measures
@@ -1010,7 +1089,7 @@ export class EnemyTank extends Tank {
   }
   
   // Enhanced persistent stuck detection with better tracking
-  private isPersistentlyStuck(): boolean {
+  isPersistentlyStuck(): boolean {
     // Basic stuck check - been stuck for a long time
     const basicCheck = this.isStuck && Date.now() - this.lastStuckCheck > this.stuckDetectionTime * 2;
     
@@ -1033,31 +1112,6 @@ export class EnemyTank extends Tank {
     return basicCheck || (isAttemptingToMove && lowSpeed && forwardObstacle && backwardObstacle);
   }
   
-  // Generate a path with waypoints to navigate around obstacles
-  private generatePathAround(obstacle: THREE.Vector3, targetPosition: THREE.Vector3): THREE.Vector3 {
-    const tankPosition = this.mesh.position;
-    
-    // Calculate a point that's perpendicular to the direct path
-    const directPath = new THREE.Vector3().subVectors(targetPosition, tankPosition);
-    const perpDirection = new THREE.Vector3(-directPath.z, 0, directPath.x).normalize();
-    
-    // Randomize which side to go around (left or right)
-    if (Math.random() > 0.5) {
-      perpDirection.multiplyScalar(-1);
-    }
-    
-    // Create an intermediate waypoint
-    const distanceToObstacle = tankPosition.distanceTo(obstacle);
-    const waypoint = tankPosition.clone().add(
-      perpDirection.multiplyScalar(distanceToObstacle * 1.5)
-    );
-    
-    // Ensure waypoint has proper y-value
-    waypoint.y = 0.4;
-    
-    return waypoint;
-  }
-
   // Check if path to player is blocked and needs navigation
   private isPathToPlayerBlocked(): boolean {
     if (!this.trackingPlayer || !this.playerLastKnownPosition) {
@@ -1123,7 +1177,7 @@ export class EnemyTank extends Tank {
   }
 
   // Enhanced recovery maneuver for when the tank is persistently stuck
-  private attemptRecoveryManeuver(): void {
+  attemptRecoveryManeuver(): void {
     const currentTime = Date.now();
     
     // Get the current forward direction
@@ -1191,4 +1245,9 @@ export class EnemyTank extends Tank {
       this.body.setLinDamping(currentDamping);
     }, 500);
   }
-}
\ No newline at end of file
+}
+
+// Distance between two points ignoring height
+function horizontalDistance(a: THREE.Vector3, b: THREE.Vector3): number {
+  return Math.hypot(a.x - b.x, a.z - b.z);
+}
@@ -0,0 +1,140 @@
+import * as THREE from 'three';
+import { VoxelWorld } from './voxelWorld';
+import { VoxelCoord, voxelProperties, voxelToWorld, getVoxelKey, getVoxelNeighbors, parseVoxelKey } from './voxel';
+import { CellularSimulation } from './cellularSimulation';
+
+const TICK_INTERVAL = 0.25; // Seconds between simulation steps
+const MAX_FLAMES = 512;     // Most burning voxels drawn at once
+
+/**
+ * Fire spreading through flammable voxels. A burning voxel has a chance each tick of
+ * setting each flammable neighbor alight, and once its material's burnTime is up it
+ * burns away. Removing it goes through setVoxel, so the usual support checks run and
+ * trees whose trunks burn through topple.
+ */
+export class FireSimulation extends CellularSimulation {
+  private burning: Map<string, number> = new Map(); // Seconds each burning voxel has left
+  private flames: THREE.InstancedMesh;
+  private dummy = new THREE.Object3D();
+
+  constructor(voxelWorld: VoxelWorld, scene: THREE.Scene, cellsPerTick: number) {
+    super(voxelWorld, cellsPerTick, TICK_INTERVAL);
+
+    const geometry = new THREE.BoxGeometry(1.05, 1.05, 1.05);
+    const material = new THREE.MeshBasicMaterial({
+      color: 0xff6a00,
+      transparent: true,
+      opacity: 0.6,
+      depthWrite: false
+    });
+    this.flames = new THREE.InstancedMesh(geometry, material, MAX_FLAMES);
+    this.flames.count = 0;
+    this.flames.frustumCulled = false;
+    scene.add(this.flames);
+  }
+
+  update(deltaTime: number): void {
+    super.update(deltaTime);
+    this.updateFlames();
+  }
+
+  // Take the flames out of the scene and free them
+  dispose(): void {
+    this.flames.removeFromParent();
+    this.flames.geometry.dispose();
+    (this.flames.material as THREE.MeshBasicMaterial).dispose();
+    this.flames.dispose();
+  }
+
+  /**
+   * Set a voxel alight
+   * @returns true if it's flammable and wasn't already burning
+   */
+  ignite(voxelPos: VoxelCoord): boolean {
+    const key = getVoxelKey(voxelPos);
+    if (this.burning.has(key)) return false;
+
+    const material = this.voxelWorld.getVoxel(voxelPos);
+    if (material === undefined || voxelProperties[material].flammability <= 0) return false;
+
+    this.burning.set(key, voxelProperties[material].burnTime);
+    this.wake(voxelPos);
+    return true;
+  }
+
+  // Whether any voxel within the given number of voxels is on fire
+  isBurningNear(voxelPos: VoxelCoord, radius: number): boolean {
+    if (this.burning.size === 0) return false;
+
+    for (let x = -radius; x <= radius; x++) {
+      for (let y = -radius; y <= radius; y++) {
+        for (let z = -radius; z <= radius; z++) {
+          if (this.burning.has(getVoxelKey({ x: voxelPos.x + x, y: voxelPos.y + y, z: voxelPos.z + z }))) {
+            return true;
+          }
+        }
+      }
+    }
+    return false;
+  }
+
+  protected handleVoxelChange(voxelPos: VoxelCoord | null): void {
+    if (voxelPos === null) {
+      this.burning.clear();
+    } else {
+      // A burning voxel that was blown away or replaced goes out
+      const material = this.voxelWorld.getVoxel(voxelPos);
+      if (material === undefined || voxelProperties[material].flammability <= 0) {
+        this.burning.delete(getVoxelKey(voxelPos));
+      }
+    }
+    super.handleVoxelChange(voxelPos);
+  }
+
+  protected canStep(voxelPos: VoxelCoord): boolean {
+    return this.burning.has(getVoxelKey(voxelPos));
+  }
+
+  protected step(voxelPos: VoxelCoord): void {
+    const key = getVoxelKey(voxelPos);
+    const timeLeft = this.burning.get(key);
+    if (timeLeft === undefined) return;
+
+    // Spread to flammable neighbors
+    for (const neighbor of getVoxelNeighbors(voxelPos)) {
+      const material = this.voxelWorld.getVoxel(neighbor);
+      if (material !== undefined && Math.random() < voxelProperties[material].flammability) {
+        this.ignite(neighbor);
+      }
+    }
+
+    if (timeLeft > TICK_INTERVAL) {
+      this.burning.set(key, timeLeft - TICK_INTERVAL);
+      this.wake(voxelPos);
+    } else {
+      // Burned out; removing it also clears it from the burning set
+      this.voxelWorld.setVoxel(voxelPos, undefined);
+    }
+  }
+
+  // Draw a flickering flame over each burning voxel
+  private updateFlames(): void {
+    let count = 0;
+    for (const key of this.burning.keys()) {
+      if (count >= MAX_FLAMES) break;
+
+      const flicker = 0.8 + Math.random() * 0.3;
+      this.dummy.position.copy(voxelToWorld(parseVoxelKey(key)));
+      this.dummy.position.y += (flicker - 1) * 0.5;
+      this.dummy.scale.set(flicker, flicker, flicker);
+      this.dummy.updateMatrix();
+      this.flames.setMatrixAt(count, this.dummy.matrix);
+      count++;
+    }
+
+    if (count !== this.flames.count || count > 0) {
+      this.flames.count = count;
+      this.flames.instanceMatrix.needsUpdate = true;
+    }
+  }
+}
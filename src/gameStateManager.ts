@@ -4,6 +4,8 @@ import { MarqueeState } from './marqueeState';
 import { PlayState } from './playState';
 import { SoundManager } from './soundManager';
 import { PreMarquee } from './preMarquee';
+import { EditorState } from './editorState';
+import { VoxelMap } from './voxelMapFormat';
 
 export class GameStateManager {
     private currentState: IGameState;
@@ -22,11 +24,19 @@ export class GameStateManager {
         return this.soundManager
     }
 
-    switchToPlay(): void {
+    switchToPlay(voxelMap?: VoxelMap): void {
         if (this.currentState) {
             this.currentState.onExit();
         }
-        this.currentState = new PlayState(this);
+        this.currentState = new PlayState(this, voxelMap);
+        this.currentState.onEnter();
+    }
+
+    switchToEditor(voxelMap?: VoxelMap): void {
+        if (this.currentState) {
+            this.currentState.onExit();
+        }
+        this.currentState = new EditorState(this, voxelMap);
         this.currentState.onEnter();
     }
 
@@ -0,0 +1,78 @@
+import { VoxelWorld } from './voxelWorld';
+import { VoxelCoord, VoxelMaterial, voxelProperties } from './voxel';
+import { CellularSimulation } from './cellularSimulation';
+
+const TICK_INTERVAL = 0.05; // Seconds between simulation steps
+
+// Horizontal directions a voxel can slide in
+const SIDES: Array<[number, number]> = [[1, 0], [0, 1], [-1, 0], [0, -1]];
+
+/**
+ * Cellular sand and soil. A granular voxel falls into an open cell below it and slides
+ * off any ledge deeper than its material's reposeStep, so loose material runs down
+ * and piles up at its angle of repose: 45° for sand, steeper for dirt. Voxels stay
+ * part of the grid the whole time, so a shelled dune slumps into a new, stable mound.
+ */
+export class GranularSimulation extends CellularSimulation {
+  private sideOffset = 0; // Rotates which side is tried first so piles spread evenly
+
+  constructor(voxelWorld: VoxelWorld, cellsPerTick: number) {
+    super(voxelWorld, cellsPerTick, TICK_INTERVAL);
+  }
+
+  protected canStep(voxelPos: VoxelCoord): boolean {
+    const material = this.voxelWorld.getVoxel(voxelPos);
+    return material !== undefined && voxelProperties[material].granular;
+  }
+
+  protected step(voxelPos: VoxelCoord): void {
+    const material = this.voxelWorld.getVoxel(voxelPos);
+    if (material === undefined || !voxelProperties[material].granular) return;
+
+    // Fall straight down first
+    const below = { x: voxelPos.x, y: voxelPos.y - 1, z: voxelPos.z };
+    if (this.isOpen(below)) {
+      this.move(voxelPos, below, material);
+      return;
+    }
+
+    // Then slide off the first side with a drop steeper than the material can hold
+    const drop = voxelProperties[material].reposeStep + 1;
+    this.sideOffset = (this.sideOffset + 1) % SIDES.length;
+    for (let i = 0; i < SIDES.length; i++) {
+      const [dx, dz] = SIDES[(i + this.sideOffset) % SIDES.length];
+      const side = { x: voxelPos.x + dx, y: voxelPos.y, z: voxelPos.z + dz };
+      if (!this.isOpen(side)) continue;
+
+      let depth = 0;
+      while (depth < drop && this.isOpen({ x: side.x, y: side.y - 1 - depth, z: side.z })) {
+        depth++;
+      }
+      if (depth >= drop) {
+        this.move(voxelPos, side, material);
+        return;
+      }
+    }
+  }
+
+  // Swap the voxel into an open cell; any water there takes the place it left
+  private move(from: VoxelCoord, to: VoxelCoord, material: VoxelMaterial): void {
+    const displaced = this.voxelWorld.getVoxel(to);
+    this.voxelWorld.setVoxel(to, material);
+    this.voxelWorld.setVoxel(from, displaced);
+
+    // Anything resting on or against the cell it left may now slide too
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dz = -1; dz <= 1; dz++) {
+        this.wake({ x: from.x + dx, y: from.y + 1, z: from.z + dz });
+      }
+    }
+  }
+
+  // Cells a granular voxel can move into; nothing goes below the ground plane
+  private isOpen(voxelPos: VoxelCoord): boolean {
+    if (voxelPos.y < 0) return false;
+    const material = this.voxelWorld.getVoxel(voxelPos);
+    return material === undefined || material === VoxelMaterial.WATER;
+  }
+}
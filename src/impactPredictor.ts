@@ -0,0 +1,91 @@
+import * as THREE from 'three';
+import { Tank } from './tank';
+import { VoxelWorld } from './voxelWorld';
+import { voxelProperties, worldToVoxel } from './voxel';
+import { traceTrajectory } from './ballistics';
+
+/**
+ * Shows where the player's next shell will come down: a marker in the world at the
+ * predicted impact point, and a readout of barrel elevation and range in the HUD.
+ * Lets the player drop shells over cover instead of firing into it.
+ */
+export class ImpactPredictor {
+  private marker: THREE.Mesh;
+  private element: HTMLElement;
+  private scene: THREE.Scene;
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+
+    // Flat ring drawn over everything so it stays visible behind cover
+    const geometry = new THREE.RingGeometry(0.8, 1.2, 24);
+    geometry.rotateX(-Math.PI / 2);
+    const material = new THREE.MeshBasicMaterial({
+      color: 0xffff00,
+      transparent: true,
+      opacity: 0.8,
+      side: THREE.DoubleSide,
+      depthTest: false
+    });
+    this.marker = new THREE.Mesh(geometry, material);
+    this.marker.renderOrder = 999;
+    this.marker.visible = false;
+
+    const existingElement = document.getElementById('impact-readout');
+    if (existingElement) {
+      existingElement.remove();
+    }
+    this.element = document.createElement('div');
+    this.element.id = 'impact-readout';
+    this.element.style.position = 'absolute';
+    this.element.style.bottom = '20px';
+    this.element.style.left = '50%';
+    this.element.style.transform = 'translateX(-50%)';
+    this.element.style.color = '#ffff00';
+    this.element.style.fontFamily = 'monospace';
+    this.element.style.fontSize = '16px';
+    this.element.style.backgroundColor = 'rgba(0, 0, 0, 0.5)';
+    this.element.style.padding = '5px 10px';
+    this.element.style.border = '1px solid #ffff00';
+    this.element.style.display = 'none';
+    document.body.appendChild(this.element);
+  }
+
+  show(): void {
+    this.scene.add(this.marker);
+    this.element.style.display = 'block';
+  }
+
+  hide(): void {
+    this.scene.remove(this.marker);
+    this.marker.visible = false;
+    this.element.style.display = 'none';
+  }
+
+  // Trace the shell the tank would fire right now and move the marker to where it lands
+  update(tank: Tank, voxelWorld: VoxelWorld): void {
+    const origin = tank.getMuzzlePosition();
+    const tankVel = tank.body.linvel();
+    const velocity = tank.getMuzzleDirection()
+      .multiplyScalar(tank.weapon.definition.muzzleVelocity)
+      .add(new THREE.Vector3(tankVel.x, tankVel.y, tankVel.z));
+
+    const impact = traceTrajectory(origin, velocity, tank.getShellGravity(), point => {
+      if (point.y <= 0) return true; // Ground
+      const voxel = voxelWorld.getVoxel(worldToVoxel(point));
+      return voxel !== undefined && voxelProperties[voxel].solid;
+    });
+
+    const elevation = THREE.MathUtils.radToDeg(tank.getElevation()).toFixed(1);
+    if (impact) {
+      this.marker.position.copy(impact.point);
+      this.marker.visible = true;
+
+      const range = Math.hypot(impact.point.x - origin.x, impact.point.z - origin.z);
+      this.element.textContent = `ELEV: ${elevation}°  RANGE: ${range.toFixed(0)}m  TIME: ${impact.time.toFixed(1)}s`;
+    } else {
+      this.marker.visible = false;
+      this.element.textContent = `ELEV: ${elevation}°  RANGE: --`;
+    }
+  }
+}
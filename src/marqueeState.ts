@@ -2,6 +2,20 @@ import * as THREE from 'three';
 import { InputState } from './types';
 import { IGameState } from './gameStates';
 import { GameStateManager } from './gameStateManager';
+import { VoxelMap, fetchVoxelMap, getMapUrlFromUrl } from './voxelMapFormat';
+import { PrefabDefinition, fetchPrefab, getPrefabUrlsFromUrl } from './prefabFormat';
+import { fetchVox, isVoxUrl, voxToPrefab, voxToVoxelMap } from './voxImporter';
+import { registerPrefab } from './voxelObjects';
+import { CHUNK_SIZE } from './voxelWorld';
+
+// Load a prefab file, either our JSON format or a MagicaVoxel model named after its file
+function loadPrefab(url: string): Promise<PrefabDefinition> {
+    if (!isVoxUrl(url)) {
+        return fetchPrefab(url);
+    }
+    const name = url.split(/[?#]/)[0].split('/').pop()!.replace(/\.vox$/i, '');
+    return fetchVox(url).then(scene => voxToPrefab(scene, name));
+}
 
 interface MarqueeCamera {
     position: THREE.Vector3;
@@ -76,7 +90,9 @@ export class MarqueeState implements IGameState {
         this.keydownHandler = (event: KeyboardEvent) => {
             if (event.code === 'Space') {
                 this.gameStart();
-                this.gameStateManager.switchToPlay();
+                this.withUrlMap(voxelMap => this.gameStateManager.switchToPlay(voxelMap));
+            } else if (event.code === 'KeyE') {
+                this.withUrlMap(voxelMap => this.gameStateManager.switchToEditor(voxelMap));
             }
         };
     }
@@ -137,6 +153,36 @@ export class MarqueeState implements IGameState {
 
     }
 
+    // Load the prefabs given by ?prefabs= and the map given by ?map= (if there are any) and hand the map to the next state
+    private withUrlMap(start: (voxelMap?: VoxelMap) => void): void {
+        const mapUrl = getMapUrlFromUrl();
+        const prefabUrls = getPrefabUrlsFromUrl();
+        if (!mapUrl && prefabUrls.length === 0) {
+            start();
+            return;
+        }
+
+        // Ignore further key presses while the files download
+        document.removeEventListener('keydown', this.keydownHandler);
+        const prefabsLoaded = Promise.all(prefabUrls.map(url => loadPrefab(url)
+            .then(prefab => registerPrefab(prefab))
+            .catch(error => console.error(`Could not load prefab ${url}, skipping it:`, error))));
+
+        prefabsLoaded
+            .then(() => {
+                if (!mapUrl) return undefined;
+                const mapLoaded = isVoxUrl(mapUrl) ? fetchVox(mapUrl).then(scene => voxToVoxelMap(scene)) : fetchVoxelMap(mapUrl, CHUNK_SIZE);
+                // A failed download or decode falls back to a generated arena
+                return mapLoaded.catch(error => {
+                    console.error(`Could not load map ${mapUrl}, generating an arena instead:`, error);
+                    return undefined;
+                });
+            })
+            // Started exactly once, outside the fallback, so a failed state switch is only reported
+            .then(voxelMap => start(voxelMap))
+            .catch(error => console.error('Could not start the next state:', error));
+    }
+
     gameStart(): void {
         this.titleScreen.style.opacity = '0';
         setTimeout(() => this.titleScreen.remove(), 1000);
@@ -204,7 +250,7 @@ export class MarqueeState implements IGameState {
         titleScreen.innerHTML = `
     <div class="title">Voxelzone</div>
     <div class="press-start">PRESS SPACE TO START</div>
-    <div class="credits">MOVEMENT: WASD/ARROWS<br>FIRE: SPACE/MOUSE<br>TURRET: Q/E</div>
+    <div class="credits">MOVEMENT: WASD/ARROWS<br>FIRE: SPACE/MOUSE<br>TURRET: Q/E<br>LEVEL EDITOR: E</div>
   `;
         document.body.appendChild(titleScreen);
 
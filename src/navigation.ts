@@ -0,0 +1,425 @@
+import * as THREE from 'three';
+import { VoxelWorld } from './voxelWorld';
+import { VoxelCoord, voxelProperties, VOXEL_SIZE } from './voxel';
+
+export interface NavigationOptions {
+  clearance: number;     // Cells around a walkable cell that must also be drivable (tank footprint)
+  maxStep: number;       // Largest floor height change, in voxels, a tank can climb between cells
+  headroom: number;      // Empty voxels needed above the floor for a tank to fit
+  maxExpansions: number; // Nodes A* may expand before giving up on a path
+}
+
+export const defaultNavigationOptions: NavigationOptions = {
+  clearance: 1,  // 3x3 cells, enough for the 2 wide tank to pass without scraping walls
+  maxStep: 1,
+  headroom: 2,
+  maxExpansions: 10000
+};
+
+const MAX_HEIGHT = 64; // Same ceiling findSurfaceHeight searches from
+const UNKNOWN_FLOOR = -1;
+const OBSTRUCTED = 0x7fff; // Floor value for columns a tank can't stand in at all
+
+const UNKNOWN = 0;
+const WALKABLE = 1;
+const BLOCKED = 2;
+
+// Moves to the 8 neighbouring cells; diagonals come last
+const NEIGHBORS = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [1, -1], [-1, 1], [-1, -1]
+];
+
+/**
+ * A 2D grid over the arena floor, one cell per voxel column, used to plan tank
+ * paths with A*. Cells are evaluated lazily from VoxelWorld occupancy and cached;
+ * the cache is invalidated around every voxel that changes, so paths adapt as
+ * structures are destroyed.
+ *
+ * A cell's floor is the top of the solid voxel stack resting on the ground. A cell
+ * is walkable when its floor has headroom and every cell within the clearance
+ * radius has a floor within maxStep of it, which keeps the whole tank footprint
+ * clear of walls rather than just its center.
+ */
+export class NavigationGrid {
+  private voxelWorld: VoxelWorld;
+  private options: NavigationOptions;
+  private radius: number;
+  private width: number;
+  private floors: Int16Array;
+  private states: Uint8Array;
+  private changeRevision: number = 0;
+
+  // Per-search scratch space, reused between searches and reset by stamping
+  private searchId: number = 0;
+  private openedIn: Uint32Array;
+  private closedIn: Uint32Array;
+  private gScores: Float32Array;
+  private parents: Int32Array;
+  private heap: BinaryHeap;
+
+  /**
+   * @param radius Distance from the arena center, in voxels, that tanks can drive within
+   */
+  constructor(voxelWorld: VoxelWorld, radius: number, options: NavigationOptions = defaultNavigationOptions) {
+    this.voxelWorld = voxelWorld;
+    this.options = options;
+    this.radius = Math.floor(radius);
+    this.width = this.radius * 2 + 1;
+
+    const cellCount = this.width * this.width;
+    this.floors = new Int16Array(cellCount).fill(UNKNOWN_FLOOR);
+    this.states = new Uint8Array(cellCount);
+    this.openedIn = new Uint32Array(cellCount);
+    this.closedIn = new Uint32Array(cellCount);
+    this.gScores = new Float32Array(cellCount);
+    this.parents = new Int32Array(cellCount);
+    this.heap = new BinaryHeap(cellCount);
+
+    voxelWorld.addVoxelChangeListener(voxelPos => this.invalidate(voxelPos));
+  }
+
+  // Increases whenever terrain changes, so path followers know to re-check their paths
+  get revision(): number {
+    return this.changeRevision;
+  }
+
+  // Whether a tank can stand centered on the cell at voxel column (x, z)
+  isWalkable(x: number, z: number): boolean {
+    const index = this.cellIndex(x, z);
+    if (index < 0) return false;
+
+    if (this.states[index] === UNKNOWN) {
+      this.states[index] = this.computeWalkable(x, z) ? WALKABLE : BLOCKED;
+    }
+    return this.states[index] === WALKABLE;
+  }
+
+  /**
+   * Plans a path with A* from one world position to another
+   * @returns World positions of the waypoints to drive through, ending at the goal
+   * cell (or the nearest walkable cell to it), or null if no path was found
+   */
+  findPath(start: THREE.Vector3, goal: THREE.Vector3): THREE.Vector3[] | null {
+    const startCell = this.findNearestWalkableCell(Math.round(start.x / VOXEL_SIZE), Math.round(start.z / VOXEL_SIZE), 3);
+    const goalCell = this.findNearestWalkableCell(Math.round(goal.x / VOXEL_SIZE), Math.round(goal.z / VOXEL_SIZE), 3);
+    if (!startCell || !goalCell) return null;
+
+    const cells = this.search(startCell, goalCell);
+    if (!cells) return null;
+
+    return this.smoothPath(cells).map(cell => this.cellToWorld(cell.x, cell.z));
+  }
+
+  /**
+   * Finds the walkable cell closest to a world position
+   * @param maxDistance Search radius in cells
+   * @returns The cell center in world space, or null if nothing walkable is nearby
+   */
+  findNearestWalkable(position: THREE.Vector3, maxDistance: number): THREE.Vector3 | null {
+    const cell = this.findNearestWalkableCell(Math.round(position.x / VOXEL_SIZE), Math.round(position.z / VOXEL_SIZE), maxDistance);
+    return cell ? this.cellToWorld(cell.x, cell.z) : null;
+  }
+
+  // Whether a tank can drive straight along each leg of a path starting at its current position
+  isPathClear(start: THREE.Vector3, waypoints: THREE.Vector3[]): boolean {
+    let from = start;
+    for (const waypoint of waypoints) {
+      if (!this.isLineWalkable(
+        Math.round(from.x / VOXEL_SIZE), Math.round(from.z / VOXEL_SIZE),
+        Math.round(waypoint.x / VOXEL_SIZE), Math.round(waypoint.z / VOXEL_SIZE)
+      )) {
+        return false;
+      }
+      from = waypoint;
+    }
+    return true;
+  }
+
+  // Drop cached cells affected by a voxel change (null means the whole world changed)
+  private invalidate(voxelPos: VoxelCoord | null): void {
+    this.changeRevision++;
+
+    if (!voxelPos) {
+      this.floors.fill(UNKNOWN_FLOOR);
+      this.states.fill(UNKNOWN);
+      return;
+    }
+
+    const floorIndex = this.cellIndex(voxelPos.x, voxelPos.z);
+    if (floorIndex >= 0) {
+      this.floors[floorIndex] = UNKNOWN_FLOOR;
+    }
+
+    // Every cell whose footprint covers the changed column needs re-evaluating
+    const clearance = this.options.clearance;
+    for (let dz = -clearance; dz <= clearance; dz++) {
+      for (let dx = -clearance; dx <= clearance; dx++) {
+        const index = this.cellIndex(voxelPos.x + dx, voxelPos.z + dz);
+        if (index >= 0) {
+          this.states[index] = UNKNOWN;
+        }
+      }
+    }
+  }
+
+  private computeWalkable(x: number, z: number): boolean {
+    const floor = this.getFloor(x, z);
+    if (floor === OBSTRUCTED) return false;
+
+    const clearance = this.options.clearance;
+    for (let dz = -clearance; dz <= clearance; dz++) {
+      for (let dx = -clearance; dx <= clearance; dx++) {
+        if (this.cellIndex(x + dx, z + dz) < 0) return false;
+
+        const neighborFloor = this.getFloor(x + dx, z + dz);
+        if (neighborFloor === OBSTRUCTED || Math.abs(neighborFloor - floor) > this.options.maxStep) {
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+
+  // Height in voxels of the solid stack standing on the ground in this column
+  private getFloor(x: number, z: number): number {
+    const index = this.cellIndex(x, z);
+    if (index < 0) return OBSTRUCTED;
+
+    if (this.floors[index] === UNKNOWN_FLOOR) {
+      let floor = 0;
+      while (floor < MAX_HEIGHT && this.isSolid(x, floor, z)) {
+        floor++;
+      }
+
+      for (let y = floor; y < floor + this.options.headroom; y++) {
+        if (this.isSolid(x, y, z)) {
+          floor = OBSTRUCTED;
+          break;
+        }
+      }
+      this.floors[index] = floor >= MAX_HEIGHT ? OBSTRUCTED : floor;
+    }
+    return this.floors[index];
+  }
+
+  private isSolid(x: number, y: number, z: number): boolean {
+    const material = this.voxelWorld.getVoxel({ x, y, z });
+    return material !== undefined && voxelProperties[material].solid;
+  }
+
+  // Index into the cell arrays, or -1 if the column is outside the drivable circle
+  private cellIndex(x: number, z: number): number {
+    if (x * x + z * z > this.radius * this.radius) return -1;
+    return (x + this.radius) + (z + this.radius) * this.width;
+  }
+
+  private cellToWorld(x: number, z: number): THREE.Vector3 {
+    // Voxels are centered on their coordinates, so a stack of n voxels tops out at n - 0.5
+    const floor = this.getFloor(x, z);
+    const y = floor === 0 || floor === OBSTRUCTED ? 0 : (floor - 0.5) * VOXEL_SIZE;
+    return new THREE.Vector3(x * VOXEL_SIZE, y, z * VOXEL_SIZE);
+  }
+
+  // Spiral outwards in square rings until a walkable cell turns up
+  private findNearestWalkableCell(x: number, z: number, maxDistance: number): { x: number, z: number } | null {
+    if (this.isWalkable(x, z)) return { x, z };
+
+    for (let ring = 1; ring <= maxDistance; ring++) {
+      let best: { x: number, z: number } | null = null;
+      let bestDistance = Infinity;
+
+      for (let dz = -ring; dz <= ring; dz++) {
+        for (let dx = -ring; dx <= ring; dx++) {
+          if (Math.max(Math.abs(dx), Math.abs(dz)) !== ring) continue;
+          const distance = dx * dx + dz * dz;
+          if (distance < bestDistance && this.isWalkable(x + dx, z + dz)) {
+            best = { x: x + dx, z: z + dz };
+            bestDistance = distance;
+          }
+        }
+      }
+
+      if (best) return best;
+    }
+    return null;
+  }
+
+  // A* over the grid with 8-way movement and an octile distance heuristic
+  private search(start: { x: number, z: number }, goal: { x: number, z: number }): Array<{ x: number, z: number }> | null {
+    const startIndex = this.cellIndex(start.x, start.z);
+    const goalIndex = this.cellIndex(goal.x, goal.z);
+
+    this.searchId++;
+    this.heap.clear();
+    this.openedIn[startIndex] = this.searchId;
+    this.gScores[startIndex] = 0;
+    this.parents[startIndex] = -1;
+    this.heap.push(startIndex, octile(start.x - goal.x, start.z - goal.z));
+
+    let expansions = 0;
+    while (this.heap.size > 0) {
+      const current = this.heap.pop();
+      if (current === goalIndex) {
+        return this.reconstructPath(goalIndex);
+      }
+      if (this.closedIn[current] === this.searchId) continue;
+      this.closedIn[current] = this.searchId;
+
+      if (++expansions > this.options.maxExpansions) {
+        return null;
+      }
+
+      const x = (current % this.width) - this.radius;
+      const z = Math.floor(current / this.width) - this.radius;
+      const floor = this.getFloor(x, z);
+
+      for (const [dx, dz] of NEIGHBORS) {
+        const nx = x + dx;
+        const nz = z + dz;
+        if (!this.isWalkable(nx, nz)) continue;
+
+        // Don't cut corners past walls when moving diagonally
+        if (dx !== 0 && dz !== 0 && (!this.isWalkable(x + dx, z) || !this.isWalkable(x, z + dz))) {
+          continue;
+        }
+
+        if (Math.abs(this.getFloor(nx, nz) - floor) > this.options.maxStep) continue;
+
+        const neighbor = this.cellIndex(nx, nz);
+        if (this.closedIn[neighbor] === this.searchId) continue;
+
+        const g = this.gScores[current] + (dx !== 0 && dz !== 0 ? Math.SQRT2 : 1);
+        if (this.openedIn[neighbor] === this.searchId && g >= this.gScores[neighbor]) continue;
+
+        // Stale heap entries for improved nodes are skipped when popped via the closed set
+        this.openedIn[neighbor] = this.searchId;
+        this.gScores[neighbor] = g;
+        this.parents[neighbor] = current;
+        this.heap.push(neighbor, g + octile(nx - goal.x, nz - goal.z));
+      }
+    }
+
+    return null;
+  }
+
+  private reconstructPath(goalIndex: number): Array<{ x: number, z: number }> {
+    const cells: Array<{ x: number, z: number }> = [];
+    for (let index = goalIndex; index !== -1; index = this.parents[index]) {
+      cells.push({
+        x: (index % this.width) - this.radius,
+        z: Math.floor(index / this.width) - this.radius
+      });
+    }
+    return cells.reverse();
+  }
+
+  // Drop waypoints that can be skipped by driving straight, leaving only the turns
+  private smoothPath(cells: Array<{ x: number, z: number }>): Array<{ x: number, z: number }> {
+    if (cells.length <= 2) return cells.slice(1);
+
+    const result: Array<{ x: number, z: number }> = [];
+    let anchor = 0;
+    while (anchor < cells.length - 1) {
+      let next = anchor + 1;
+      while (next + 1 < cells.length &&
+        this.isLineWalkable(cells[anchor].x, cells[anchor].z, cells[next + 1].x, cells[next + 1].z)) {
+        next++;
+      }
+      result.push(cells[next]);
+      anchor = next;
+    }
+    return result;
+  }
+
+  // Sample a straight line between two cells, checking each cell it passes and the steps between them
+  private isLineWalkable(x0: number, z0: number, x1: number, z1: number): boolean {
+    const steps = Math.max(1, Math.ceil(Math.max(Math.abs(x1 - x0), Math.abs(z1 - z0)) * 4));
+    let previousFloor = this.getFloor(x0, z0);
+
+    for (let i = 0; i <= steps; i++) {
+      const t = i / steps;
+      const x = Math.round(x0 + (x1 - x0) * t);
+      const z = Math.round(z0 + (z1 - z0) * t);
+      if (!this.isWalkable(x, z)) return false;
+
+      const floor = this.getFloor(x, z);
+      if (Math.abs(floor - previousFloor) > this.options.maxStep) return false;
+      previousFloor = floor;
+    }
+    return true;
+  }
+}
+
+// Distance with 8-way movement where diagonal steps cost sqrt(2)
+function octile(dx: number, dz: number): number {
+  const ax = Math.abs(dx);
+  const az = Math.abs(dz);
+  return Math.max(ax, az) + (Math.SQRT2 - 1) * Math.min(ax, az);
+}
+
+// Min-heap of cell indices keyed by priority
+class BinaryHeap {
+  private items: Int32Array;
+  private priorities: Float32Array;
+  size: number = 0;
+
+  constructor(capacity: number) {
+    this.items = new Int32Array(capacity);
+    this.priorities = new Float32Array(capacity);
+  }
+
+  clear(): void {
+    this.size = 0;
+  }
+
+  push(item: number, priority: number): void {
+    // Improved nodes are pushed again rather than re-keyed, so grow if needed
+    if (this.size === this.items.length) {
+      this.grow();
+    }
+
+    let index = this.size++;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.priorities[parent] <= priority) break;
+      this.items[index] = this.items[parent];
+      this.priorities[index] = this.priorities[parent];
+      index = parent;
+    }
+    this.items[index] = item;
+    this.priorities[index] = priority;
+  }
+
+  pop(): number {
+    const top = this.items[0];
+    const lastItem = this.items[--this.size];
+    const lastPriority = this.priorities[this.size];
+
+    let index = 0;
+    while (true) {
+      let child = index * 2 + 1;
+      if (child >= this.size) break;
+      if (child + 1 < this.size && this.priorities[child + 1] < this.priorities[child]) {
+        child++;
+      }
+      if (this.priorities[child] >= lastPriority) break;
+      this.items[index] = this.items[child];
+      this.priorities[index] = this.priorities[child];
+      index = child;
+    }
+    this.items[index] = lastItem;
+    this.priorities[index] = lastPriority;
+
+    return top;
+  }
+
+  private grow(): void {
+    const items = new Int32Array(this.items.length * 2);
+    items.set(this.items);
+    this.items = items;
+    const priorities = new Float32Array(this.priorities.length * 2);
+    priorities.set(this.priorities);
+    this.priorities = priorities;
+  }
+}
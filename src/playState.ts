@@ -3,16 +3,24 @@ import { Vehicle, GameObject, InputState } from './types';
 import { PhysicsWorld } from './physics';
 import { PlayerTank } from './playerTank';
 import { EnemyTank } from './enemyTank';
+import { pickEnemyArchetype } from './enemyArchetypes';
+import { SquadBlackboard } from './squad';
 import { FlyCamera } from './flyCamera';
 import { IGameState } from './gameStates';
 import { Radar } from './radar';
+import { ImpactPredictor } from './impactPredictor';
 import { GameStateManager } from './gameStateManager';
 import { GameConfig, defaultConfig } from './config';
 import { VoxelWorld } from './voxelWorld';
-import { createVoxelStructures } from './arena';
+import { NavigationGrid } from './navigation';
+import { createVoxelStructures, getArenaLayoutFromUrl } from './arena';
 import { createTerrain, createGround, createBoundaryWalls } from './gameObjects';
 import { Powerup, PowerupType, PowerupEffect } from './powerup';
-import { voxelToWorld } from './voxel';
+import { VoxelCoord, VoxelMaterial, voxelProperties } from './voxel';
+import { VoxelMap, VoxelMapSpawns, downloadVoxelMap } from './voxelMapFormat';
+import { getMeshingModeFromUrl } from './chunkMesher';
+import { DayNightCycle, getTimeOfDayFromUrl } from './dayNightCycle';
+import { RandomGenerator, RandomStream, createRandomStream, generateSeed, getSeedFromUrl } from './random';
 
 export class PlayState implements IGameState {
   public gameStateManager: GameStateManager;
@@ -28,9 +36,11 @@ export class PlayState implements IGameState {
   gameOver: boolean = false;
   flyCamera: FlyCamera;
   radar: Radar;
+  impactPredictor: ImpactPredictor; // Predicted landing point of the player's next shell
   prevWireframeState: boolean = false;
   private prevDebugPhysicsState: boolean = false;
   input?: InputState;
+  private removeInputHandlers?: () => void;
   config: GameConfig;
   // Add a cooldown period to prevent firing on game start
   private inputCooldownActive: boolean = true;
@@ -53,26 +63,52 @@ export class PlayState implements IGameState {
   activeEffects : PowerupEffect[] = [];
 
   public voxelWorld: VoxelWorld; // New property for voxel world
+  navigation: NavigationGrid; // Path planning grid for enemy tanks, kept in sync with the voxel world
+  squad: SquadBlackboard = new SquadBlackboard(); // Sightings and roles shared between enemy tanks
+  dayNight: DayNightCycle; // Time of day, lighting, and how far enemies can see
+
+  // Match seed - the same seed always produces the same arena and spawns
+  readonly seed: number;
+  private enemySpawnRandom: RandomGenerator;
+  private enemyTypeRandom: RandomGenerator;
+
+  // Spawn points from a loaded map (empty for generated arenas)
+  private mapSpawns: VoxelMapSpawns;
+  private powerupRandom: RandomGenerator;
+
+  private weaponDisplay: HTMLDivElement | null = null; // Weapon list HUD, built on first use
 
   // Physics debug visualization properties
   private physicsDebugRenderer: THREE.LineSegments | null = null;
   private physicsCounterElement: HTMLElement | null;
 
-  constructor(gameStateManager: GameStateManager) {
+  /**
+   * @param voxelMap Optional saved map to play on instead of generating the arena
+   */
+  constructor(gameStateManager: GameStateManager, voxelMap?: VoxelMap) {
     // Create scene
     this.scene = new THREE.Scene();
-    this.scene.background = new THREE.Color(0x87ceeb); // Light sky blue
     this.physicsCounterElement = document.getElementById('physics-counter');
 
     // Setup game state with configuration
     this.config = {
       ...defaultConfig,
+      voxelMeshingMode: getMeshingModeFromUrl() ?? defaultConfig.voxelMeshingMode,
     };
 
+    // Use the seed from the URL (?seed=) if given so a match can be replayed
+    this.seed = getSeedFromUrl() ?? generateSeed();
+    this.mapSpawns = voxelMap ? voxelMap.spawns : { player: null, enemies: [] };
+    this.enemySpawnRandom = createRandomStream(this.seed, RandomStream.ENEMY_SPAWN);
+    this.enemyTypeRandom = createRandomStream(this.seed, RandomStream.ENEMY_TYPE);
+    this.powerupRandom = createRandomStream(this.seed, RandomStream.POWERUP);
+
     this.gameStateManager = gameStateManager;
     this.physicsWorld = new PhysicsWorld(this.config);
     this.voxelWorld = new VoxelWorld(this, this.scene, this.physicsWorld, this.config);
-    this.initializeGameObjects(this.config);
+    // Tanks can drive anywhere inside the boundary walls, less half a tank length
+    this.navigation = new NavigationGrid(this.voxelWorld, this.config.worldSize / 2 - 20 - 2);
+    this.initializeGameObjects(this.config, voxelMap);
 
     // Set up camera with increased far plane and narrower FOV for first person view
     this.camera = new THREE.PerspectiveCamera(
@@ -92,26 +128,12 @@ export class PlayState implements IGameState {
     this.radar.setSoundManager(soundManager);
     this.radar.hide()
 
-    this.createOrientationGuide(this.scene);
-
-    // Add lighting
-    const ambientLight = new THREE.AmbientLight(0x6b8cff, 4.0); // Increased from 2.0, with a blue tint
-    this.scene.add(ambientLight);
+    this.impactPredictor = new ImpactPredictor(this.scene);
 
-    // Main directional light (like the sun)
-    const directionalLight = new THREE.DirectionalLight(0xffffcc, 2.5); // Increased from 1.5, warmer color
-    directionalLight.position.set(100, 200, 100);
-    directionalLight.castShadow = true;
-    this.scene.add(directionalLight);
-
-    // Add a distant point light to simulate sky lighting
-    const skyLight = new THREE.HemisphereLight(0x87ceeb, 0x648c4a, 2.0); // Sky blue and ground green
-    this.scene.add(skyLight);
+    this.createOrientationGuide(this.scene);
 
-    // Add a fill light from another angle to reduce harsh shadows
-    const fillLight = new THREE.DirectionalLight(0xffffee, 1.0);
-    fillLight.position.set(-100, 50, -50);
-    this.scene.add(fillLight);
+    // Lighting follows the time of day, starting from ?time= if given
+    this.dayNight = new DayNightCycle(this.scene, this.config, getTimeOfDayFromUrl() ?? undefined);
 
     // Add camera mode indicator to the UI
     const cameraMode = document.createElement('div');
@@ -141,6 +163,21 @@ export class PlayState implements IGameState {
     coordDisplay.style.border = '1px solid #00ff00';
     document.body.appendChild(coordDisplay);
 
+    // Add seed display so a good (or broken) arena can be shared and reproduced
+    const seedDisplay = document.createElement('div');
+    seedDisplay.id = 'seed-display';
+    seedDisplay.textContent = `Seed: ${this.seed}`;
+    seedDisplay.style.position = 'absolute';
+    seedDisplay.style.top = '200px';
+    seedDisplay.style.left = '10px';
+    seedDisplay.style.color = '#00ff00';
+    seedDisplay.style.fontFamily = 'monospace';
+    seedDisplay.style.fontSize = '16px';
+    seedDisplay.style.backgroundColor = 'rgba(0, 0, 0, 0.5)';
+    seedDisplay.style.padding = '5px';
+    seedDisplay.style.border = '1px solid #00ff00';
+    document.body.appendChild(seedDisplay);
+
     // Update the coordinate display in the animation loop
     setInterval(() => {
       const position = this.flyCamera.enabled ? this.camera.position : this.player.mesh.position;
@@ -154,17 +191,18 @@ export class PlayState implements IGameState {
     });
   }
 
-  private initializeGameObjects(config: GameConfig): void {
+  private initializeGameObjects(config: GameConfig, voxelMap?: VoxelMap): void {
     // Create voxel terrain first
     const halfWorldSize = config.worldSize / 2 - 20;
+    const arenaRandom = createRandomStream(this.seed, RandomStream.ARENA);
 
     // Create terrain
     const terrainPositions: THREE.Vector3[] = [];
     for (let i = 0; i < config.obstacleCount; i++) {
       let x = 0, z = 0;
       do {
-        x = (Math.random() * (halfWorldSize * 2)) - halfWorldSize;
-        z = (Math.random() * (halfWorldSize * 2)) - halfWorldSize;
+        x = (arenaRandom() * (halfWorldSize * 2)) - halfWorldSize;
+        z = (arenaRandom() * (halfWorldSize * 2)) - halfWorldSize;
       } while (Math.sqrt(x * x + z * z) < config.minObstacleDistance);
       terrainPositions.push(new THREE.Vector3(x, 0, z));
     }
@@ -190,10 +228,20 @@ export class PlayState implements IGameState {
 
     this.terrain = [...terrain, ...walls, ground];
 
-    // Instead of generating voxel terrain, create voxel structures on the regular terrain
-    createVoxelStructures(this.voxelWorld, halfWorldSize);
+    if (voxelMap) {
+      // Play on a saved, hand-tuned arena
+      this.voxelWorld.importMap(voxelMap);
+    } else {
+      // Instead of generating voxel terrain, create voxel structures on the regular terrain
+      createVoxelStructures(this.voxelWorld, halfWorldSize, arenaRandom, getArenaLayoutFromUrl() ?? undefined);
+    }
+
+    // Build the whole arena up front; after this, rebuilds are spread over frames
+    this.voxelWorld.flushRebuilds();
+    this.voxelWorld.sleepSimulations();
 
-    const playerPosition = new THREE.Vector3(0, 0.4, 0);
+    // Start at the map's player spawn if it has one, otherwise at the center
+    const playerPosition = this.mapSpawns.player ? this.spawnToWorld(this.mapSpawns.player) : new THREE.Vector3(0, 0.4, 0);
     // Create player tank at valid position
     this.player = new PlayerTank(this, playerPosition);
     this.scene.add(this.player.mesh);
@@ -201,30 +249,13 @@ export class PlayState implements IGameState {
 
     // Create base number of enemies for first level after terrain is set up
     for (let i = 0; i < config.baseEnemyCount; i++) {
-      // Try to find a valid spawn position
-      let position: THREE.Vector3;
-      let attempts = 0;
-      const maxAttempts = 100; // Prevent infinite loops
-
-      do {
-        let x = (Math.random() * (halfWorldSize * 2)) - halfWorldSize;
-        let z = (Math.random() * (halfWorldSize * 2)) - halfWorldSize;
-        position = new THREE.Vector3(x, 0.4, z);
-        attempts++;
-
-        // Break the loop if we've tried too many times to avoid freezing the game
-        if (attempts >= maxAttempts) {
-          console.warn(`Could not find valid spawn position for enemy ${i} after ${maxAttempts} attempts`);
-          break;
-        }
-      } while (!this.isValidSpawnPosition(position));
-
       // Skip this enemy if we couldn't find a valid position
-      if (attempts >= maxAttempts) {
+      const position = this.findEnemySpawnPosition(i);
+      if (!position) {
         continue;
       }
 
-      const enemy = new EnemyTank(this, position);
+      const enemy = new EnemyTank(this, position, pickEnemyArchetype(this.currentLevel, this.enemyTypeRandom));
       this.enemies.push(enemy);
       this.scene.add(enemy.mesh);
       this.physicsWorld.addBody(enemy);
@@ -277,7 +308,20 @@ export class PlayState implements IGameState {
         this.player.rotateTurret(-1);
       }
 
-      if (input.fire) {
+      // Moving the mouse up (or holding T) raises the barrel, down (or G) lowers it
+      if (input.mouseDeltaY !== 0) {
+        const sensitivity = 0.005;
+        this.player.elevateBarrel(-input.mouseDeltaY * sensitivity);
+        input.mouseDeltaY = 0;
+      }
+      if (input.barrelUp) {
+        this.player.elevateBarrel(1);
+      }
+      if (input.barrelDown) {
+        this.player.elevateBarrel(-1);
+      }
+
+      if (input.fire && this.player.canFire) {
         this.player.fire();
         soundManager.playPlayerShoot();
       }
@@ -297,6 +341,7 @@ export class PlayState implements IGameState {
   }
 
   render(renderer: THREE.WebGLRenderer): void {
+    this.dayNight.applyToRenderer(renderer);
     renderer.render(this.scene, this.camera);
     // Render orientation guide if it exists and game has started
     if (this.scene.userData.orientationGuide) {
@@ -342,7 +387,12 @@ export class PlayState implements IGameState {
   updatePhysicsCounter(): void {
     if (this.physicsCounterElement) {
       const count = this.physicsWorld.getPhysicsObjectCount();
-      this.physicsCounterElement.textContent = `PHYSICS OBJECTS: ${count}`;
+      const mesh = this.voxelWorld.getMeshStats();
+      const averageMs = mesh.chunksBuilt > 0 ? mesh.totalBuildMs / mesh.chunksBuilt : 0;
+      this.physicsCounterElement.innerHTML = `PHYSICS OBJECTS: ${count}<br>` +
+        `MESHER: ${mesh.mode.toUpperCase()} ${mesh.chunksBuilt} BUILDS, ` +
+        `AVG ${averageMs.toFixed(2)}MS, MAX ${mesh.maxBuildMs.toFixed(2)}MS, ` +
+        `${(mesh.triangles / 1000).toFixed(1)}K TRIS`;
     }
   }
 
@@ -350,12 +400,22 @@ export class PlayState implements IGameState {
     if (this.gameOver) return;
 
     this.updatePhysicsCounter();
-    this.voxelWorld.update(deltaTime);
+    this.voxelWorld.update(deltaTime, this.camera.position);
 
     this.handleInput(this.input!);
 
     this.physicsWorld.update(deltaTime);
 
+    // Advance the time of day; tanks switch their headlights on as it gets dark
+    this.dayNight.update(deltaTime);
+    const headlightsOn = this.dayNight.headlightsOn;
+    this.player.setHeadlights(headlightsOn);
+    this.enemies.forEach(enemy => {
+      if (enemy instanceof EnemyTank) {
+        enemy.setHeadlights(headlightsOn);
+      }
+    });
+
     // Update physics debug rendering if enabled
     if (this.physicsDebugRenderer) {
       // Get fresh debug rendering data
@@ -393,6 +453,7 @@ export class PlayState implements IGameState {
     // Update player and enemies
     this.player.update(deltaTime);
 
+    this.squad.update(this.enemies.filter((enemy): enemy is EnemyTank => enemy instanceof EnemyTank));
     this.enemies.forEach(enemy => {
       if (enemy.update) {
         enemy.update(deltaTime);
@@ -422,6 +483,9 @@ export class PlayState implements IGameState {
     // Update radar and play ping sound only when new enemies appear
     this.radar.update(this.player, this.enemies, this.powerups);
 
+    // Show where the player's next shell would land
+    this.impactPredictor.update(this.player, this.voxelWorld);
+
     // Check for level completion
     if (!this.levelComplete && this.enemies.length === 0) {
       this.levelComplete = true;
@@ -571,17 +635,21 @@ export class PlayState implements IGameState {
     }
   }
 
-  public handleEnemyHit(enemyIndex: number, enemyPos: THREE.Vector3): void {
+  /**
+   * @param showEffects Whether to show the shell-hit explosion and play the hit sound; off for damage from the world, like fire
+   */
+  public handleEnemyHit(enemyIndex: number, enemyPos: THREE.Vector3, damage: number = 10, showEffects: boolean = true): void {
     const enemy = this.enemies[enemyIndex];
 
-    const soundManager = this.gameStateManager.initSoundManager();
     // Apply damage and check if enemy is destroyed
-    const isAlive = enemy.takeDamage(10);
+    const isAlive = enemy.takeDamage(damage);
 
-    // Create hit explosion effect
-    this.createExplosion(enemyPos);
+    if (showEffects) {
+      // Create hit explosion effect
+      this.createExplosion(enemyPos);
 
-    soundManager.playHit();
+      this.gameStateManager.initSoundManager().playHit();
+    }
 
     // Only remove the enemy if it's destroyed
     if (!isAlive) {
@@ -737,25 +805,31 @@ export class PlayState implements IGameState {
     }
   }
 
-  public handlePlayerHit(): void {
+  /**
+   * @param showEffects Whether to show the shell-hit explosion, hit notification and camera shake and play the
+   * hit sound; off for damage from the world, like fire
+   */
+  public handlePlayerHit(damage: number = 10, showEffects: boolean = true): void {
     // Flash the player tank to indicate damage and check if destroyed
-    const isAlive = this.player.takeDamage(10);
-    const soundManager = this.gameStateManager.initSoundManager();
+    const isAlive = this.player.takeDamage(damage);
 
-    // Create explosion effect at the player's position
-    const playerPos = this.player.body.translation();
-    this.createExplosion(new THREE.Vector3(playerPos.x, playerPos.y, playerPos.z));
+    if (showEffects) {
+      // Create explosion effect at the player's position
+      const playerPos = this.player.body.translation();
+      this.createExplosion(new THREE.Vector3(playerPos.x, playerPos.y, playerPos.z));
+
+      this.gameStateManager.initSoundManager().playHit();
+    }
 
     // Display health info
     this.showHealthNotification();
 
-    soundManager.playHit();
-
     // Check if player is destroyed
     if (!isAlive) {
       this.triggerGameOver();
       return;
     }
+    if (!showEffects) return;
 
     // Show hit notification
     const hitNotification = document.createElement('div');
@@ -923,6 +997,7 @@ export class PlayState implements IGameState {
 
     this.input = this.setupInputHandlers();
     this.radar.show();
+    this.impactPredictor.show();
 
     // Initialize health and ammo displays
     this.showHealthNotification();
@@ -960,6 +1035,7 @@ export class PlayState implements IGameState {
     const physicsCounterElement = document.getElementById('physics-counter');
     const instructionsElement = document.getElementById('instructions');
     const coordDisplay = document.getElementById('coordinates');
+    const seedDisplay = document.getElementById('seed-display');
     const healthDisplay = document.getElementById('health-display');
 
     if (fpsElement) fpsElement.style.opacity = '0';
@@ -967,6 +1043,8 @@ export class PlayState implements IGameState {
     if (physicsCounterElement) physicsCounterElement.style.opacity = '0';
     if (instructionsElement) instructionsElement.style.opacity = '0';
     if (coordDisplay) coordDisplay.style.opacity = '0';
+    // The seed display is created afresh by each match, so remove this one rather than hiding it
+    if (seedDisplay) seedDisplay.remove();
     if (healthDisplay) {
       healthDisplay.style.opacity = '0';
       setTimeout(() => {
@@ -974,8 +1052,21 @@ export class PlayState implements IGameState {
       }, 500);
     }
 
+    if (this.weaponDisplay) {
+      this.weaponDisplay.remove();
+      this.weaponDisplay = null;
+    }
+
     // Hide and reset the radar
     this.radar.hide();
+    this.impactPredictor.hide();
+
+    this.voxelWorld.dispose();
+
+    if (this.removeInputHandlers) {
+      this.removeInputHandlers();
+      this.removeInputHandlers = undefined;
+    }
 
     // Handle any cleanup of game visuals
     // Remove any on-screen feedback elements
@@ -1010,7 +1101,10 @@ export class PlayState implements IGameState {
       turretLeft: false,
       turretRight: false,
       mouseX: 0,
-      mouseDeltaX: 0
+      mouseDeltaX: 0,
+      mouseDeltaY: 0,
+      barrelUp: false,
+      barrelDown: false
     };
 
     // Key down handler
@@ -1046,12 +1140,29 @@ export class PlayState implements IGameState {
         case 'KeyE':
           input.turretRight = true;
           break;
+        case 'KeyT':
+          input.barrelUp = true;
+          break;
+        case 'KeyG':
+          input.barrelDown = true;
+          break;
         case 'Space':
           input.fire = true;
           break;
         case 'KeyF':
           this.flyCamera.toggle();
           break;
+        case 'Digit1':
+        case 'Digit2':
+        case 'Digit3':
+        case 'Digit4':
+        case 'Digit5':
+          this.player.selectWeapon(Number(event.code.slice(5)) - 1);
+          break;
+        case 'KeyM':
+          // Save the current voxel world, including any destruction, as a map file
+          downloadVoxelMap(this.voxelWorld.exportMap(this.mapSpawns), `voxelzone-${this.seed}.vxzm`);
+          break;
       }
     };
 
@@ -1080,6 +1191,12 @@ export class PlayState implements IGameState {
         case 'KeyE':
           input.turretRight = false;
           break;
+        case 'KeyT':
+          input.barrelUp = false;
+          break;
+        case 'KeyG':
+          input.barrelDown = false;
+          break;
         case 'Space':
           input.fire = false;
           break;
@@ -1104,6 +1221,7 @@ export class PlayState implements IGameState {
       // Calculate delta X (how much the mouse moved horizontally since last frame)
       const deltaX = event.movementX || 0;
       input.mouseDeltaX = deltaX;
+      input.mouseDeltaY = event.movementY || 0;
       input.mouseX = event.clientX;
     };
 
@@ -1114,6 +1232,15 @@ export class PlayState implements IGameState {
     window.addEventListener('mouseup', handleMouseUp);
     window.addEventListener('mousemove', handleMouseMove);
 
+    // Remove the listeners again when leaving the state so they don't fire in the next one
+    this.removeInputHandlers = () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('mouseup', handleMouseUp);
+      window.removeEventListener('mousemove', handleMouseMove);
+    };
+
     return input;
   }
 
@@ -1339,43 +1466,26 @@ export class PlayState implements IGameState {
       }
     });
     this.enemies = [];
-
-    // Get world bounds from config
-    const halfWorldSize = this.config.worldSize / 2 - 20;
+    this.squad = new SquadBlackboard();
 
     // Create new scaled enemies
     for (let i = 0; i < scaling.count; i++) {
-      // Try to find a valid spawn position
-      let position: THREE.Vector3;
-      let attempts = 0;
-      const maxAttempts = 100; // Prevent infinite loops
-
-      do {
-        let x = (Math.random() * (halfWorldSize * 2)) - halfWorldSize;
-        let z = (Math.random() * (halfWorldSize * 2)) - halfWorldSize;
-        position = new THREE.Vector3(x, 0.4, z);
-        attempts++;
-
-        // Break the loop if we've tried too many times to avoid freezing the game
-        if (attempts >= maxAttempts) {
-          console.warn(`Could not find valid spawn position for enemy ${i} after ${maxAttempts} attempts`);
-          break;
-        }
-      } while (!this.isValidSpawnPosition(position));
-
       // Skip this enemy if we couldn't find a valid position
-      if (attempts >= maxAttempts) {
+      const position = this.findEnemySpawnPosition(i);
+      if (!position) {
         continue;
       }
 
-      // Create enemy tank at the position
-      const enemy = new EnemyTank(this, position);
+      // Create enemy tank at the position, of a type from this level's mix
+      const archetype = pickEnemyArchetype(this.currentLevel, this.enemyTypeRandom);
+      const enemy = new EnemyTank(this, position, archetype);
 
       // Apply level scaling to enemy properties
       enemy.speed *= scaling.speedMultiplier;
       enemy.detectionRange *= scaling.rangeMultiplier;
       enemy.firingRange *= scaling.rangeMultiplier;
-      enemy.hitpoints = Math.floor(10 * scaling.hitpointsMultiplier);
+      enemy.hitpoints = Math.floor(archetype.hitpoints * scaling.hitpointsMultiplier);
+      enemy.maxHitpoints = enemy.hitpoints;
 
       // Add to arrays and scene
       this.enemies.push(enemy);
@@ -1500,9 +1610,9 @@ export class PlayState implements IGameState {
     const maxAttempts = 100; // Prevent infinite loops
 
     do {
-      let x = (Math.random() * (halfWorldSize * 2)) - halfWorldSize;
-      let z = (Math.random() * (halfWorldSize * 2)) - halfWorldSize;
-      position = new THREE.Vector3(x, 1.2, z); // Slightly raised for better visibility
+      let x = (this.powerupRandom() * (halfWorldSize * 2)) - halfWorldSize;
+      let z = (this.powerupRandom() * (halfWorldSize * 2)) - halfWorldSize;
+      position = this.surfacePosition(x, z, 1.2); // Slightly raised for better visibility
       attempts++;
 
       // Break the loop if we've tried too many times to avoid freezing the game
@@ -1519,7 +1629,7 @@ export class PlayState implements IGameState {
       PowerupType.SPEED,
       PowerupType.ROTATION
     ];
-    const randomType = powerupTypes[Math.floor(Math.random() * powerupTypes.length)];
+    const randomType = powerupTypes[Math.floor(this.powerupRandom() * powerupTypes.length)];
 
     // Create powerup at the position
     const powerup = new Powerup(this, position, randomType);
@@ -1812,6 +1922,48 @@ export class PlayState implements IGameState {
     }, 2000);
   }
 
+  // Find a spawn position for the given enemy, using the map's enemy spawn points first
+  private findEnemySpawnPosition(index: number): THREE.Vector3 | null {
+    if (index < this.mapSpawns.enemies.length) {
+      const position = this.spawnToWorld(this.mapSpawns.enemies[index]);
+      // Don't drop an enemy right on top of the player on later levels
+      if (this.player.mesh.position.distanceTo(position) >= 15) {
+        return position;
+      }
+    }
+
+    // Try to find a valid random spawn position
+    const halfWorldSize = this.config.worldSize / 2 - 20;
+    let position: THREE.Vector3;
+    let attempts = 0;
+    const maxAttempts = 100; // Prevent infinite loops
+
+    do {
+      let x = (this.enemySpawnRandom() * (halfWorldSize * 2)) - halfWorldSize;
+      let z = (this.enemySpawnRandom() * (halfWorldSize * 2)) - halfWorldSize;
+      position = this.surfacePosition(x, z, 0.4);
+      attempts++;
+
+      // Give up if we've tried too many times to avoid freezing the game
+      if (attempts >= maxAttempts) {
+        console.warn(`Could not find valid spawn position for enemy ${index} after ${maxAttempts} attempts`);
+        return null;
+      }
+    } while (!this.isValidSpawnPosition(position));
+
+    return position;
+  }
+
+  // Convert a map spawn point (the empty voxel cell a tank sits in) to a world position
+  private spawnToWorld(spawn: VoxelCoord): THREE.Vector3 {
+    return new THREE.Vector3(spawn.x, spawn.y + 0.4, spawn.z);
+  }
+
+  // A point the given height above the top of the voxels at x, z
+  private surfacePosition(x: number, z: number, height: number): THREE.Vector3 {
+    return new THREE.Vector3(x, this.voxelWorld.findSurfaceHeight(Math.round(x), Math.round(z)) + height, z);
+  }
+
   // Check if a spawn position is valid (not inside obstacles, other tanks, etc.)
   private isValidSpawnPosition(position: THREE.Vector3): boolean {
     // Check if position is within arena boundaries
@@ -1860,27 +2012,25 @@ export class PlayState implements IGameState {
       }
     }
 
-    // Check for voxels at the position
-    const voxelResult = this.voxelWorld.raycast(
-      new THREE.Vector3(position.x, position.y + 5, position.z),
-      new THREE.Vector3(0, -1, 0),
-      10
-    );
-
-    if (voxelResult.voxel !== null) {
-      const pos = voxelToWorld(voxelResult.voxel);
-      // Fix: Calculate distance properly from the position to the voxel position
-      const voxelDistance = Math.sqrt(
-        Math.pow(pos.x - position.x, 2) + 
-        Math.pow(pos.z - position.z, 2)
-      );
-      
-      // If there's a voxel within 2 units of the spawn point, it's invalid
-      if (voxelDistance < 2) {
-        return false;
+    // Only spawn on open, fairly level ground: every column around the spawn point must
+    // be within a climbable step of it, which rules out walls, trees and cliff edges
+    const x = Math.round(position.x);
+    const z = Math.round(position.z);
+    const surface = this.voxelWorld.findSurfaceHeight(x, z);
+    for (let dx = -2; dx <= 2; dx++) {
+      for (let dz = -2; dz <= 2; dz++) {
+        if (Math.abs(this.voxelWorld.findSurfaceHeight(x + dx, z + dz) - surface) > 1) {
+          return false;
+        }
       }
     }
 
+    // Not in a pond or on top of a hedge
+    const ground = this.voxelWorld.getVoxel({ x, y: surface - 1, z });
+    if (ground !== undefined && (ground === VoxelMaterial.WATER || voxelProperties[ground].crushable)) {
+      return false;
+    }
+
     // Check distance from other powerups
     const minPowerupDistance = 10;
     for (const powerup of this.powerups) {
@@ -1919,12 +2069,47 @@ export class PlayState implements IGameState {
     ammoContainer.style.width = '150px';
 
     // Create the ammo text container
+    const weapon = this.player.weapon;
     const ammoText = document.createElement('div');
     ammoText.id = 'ammo-text';
-    ammoText.textContent = `AMMO: ${this.player.currentProjectiles}/${this.player.maxProjectiles}`;
+    ammoText.textContent = `${weapon.definition.name.toUpperCase()}: ${weapon.ammo}/${weapon.definition.maxAmmo}`;
     ammoContainer.appendChild(ammoText);
 
     document.body.appendChild(ammoContainer);
+
+    this.updateWeaponDisplay();
+  }
+
+  // List every weapon with its number key and ammo, highlighting the active one
+  private updateWeaponDisplay(): void {
+    // Built once, then its rows are updated in place, as this runs on every shot
+    if (!this.weaponDisplay) {
+      this.weaponDisplay = document.createElement('div');
+      this.weaponDisplay.id = 'weapon-display';
+      this.weaponDisplay.style.position = 'absolute';
+      this.weaponDisplay.style.top = '250px'; // Below the seed display
+      this.weaponDisplay.style.left = '10px';
+      this.weaponDisplay.style.backgroundColor = 'rgba(0, 0, 0, 0.5)';
+      this.weaponDisplay.style.padding = '5px';
+      this.weaponDisplay.style.border = '1px solid #ffaa00';
+      this.weaponDisplay.style.fontFamily = 'monospace';
+      this.weaponDisplay.style.fontSize = '16px';
+
+      for (let i = 0; i < this.player.weapons.length; i++) {
+        const row = document.createElement('div');
+        row.style.whiteSpace = 'pre';
+        this.weaponDisplay.appendChild(row);
+      }
+      document.body.appendChild(this.weaponDisplay);
+    }
+
+    this.player.weapons.forEach((weapon, index) => {
+      const active = index === this.player.activeWeaponIndex;
+      const row = this.weaponDisplay!.children[index] as HTMLDivElement;
+      row.textContent = `${active ? '>' : ' '} ${index + 1} ${weapon.definition.name.padEnd(5)} ${weapon.ammo}`;
+      row.style.color = weapon.ammo > 0 ? '#ffaa00' : '#666666';
+      row.style.fontWeight = active ? 'bold' : 'normal';
+    });
   }
 
   // Update the UI to show progress toward level completion
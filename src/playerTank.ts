@@ -1,11 +1,10 @@
 import * as THREE from 'three';
 import { Tank } from './tank';
 import { PlayState } from './playState';
+import { Weapon, weaponDefinitions } from './weapons';
 
 export class PlayerTank extends Tank {
   private healthFlashTimeout: number | null = null;
-  public maxProjectiles: number = 50; // Default max projectiles
-  public currentProjectiles: number = 50; // Start with max projectiles
   private originalSpeed: number;
   private originalTurnSpeed: number;
 
@@ -17,6 +16,18 @@ export class PlayerTank extends Tank {
     this.turnSpeed = 1.5;
     this.hitpoints = 15; // Player starts with 15 hitpoints
     this.maxHitpoints = 15; // Initial max hitpoints
+
+    // Light the ground ahead at night
+    this.createHeadlightBeam();
+
+    // Selected with the number keys, in this order
+    this.weapons = [
+      new Weapon(weaponDefinitions.standard),
+      new Weapon(weaponDefinitions.highExplosive),
+      new Weapon(weaponDefinitions.armorPiercing),
+      new Weapon(weaponDefinitions.machineGun),
+      new Weapon(weaponDefinitions.incendiary)
+    ];
     
     // Store original values for reverting powerups later
     this.originalSpeed = this.speed;
@@ -63,24 +74,32 @@ export class PlayerTank extends Tank {
     }, 300);
   }
   
-  // Add projectiles to the player's ammo count
-  addProjectiles(count: number): void {
-    this.currentProjectiles = Math.min(this.currentProjectiles + count, this.maxProjectiles);
+  // Resupply every weapon with its pickup amount
+  addAmmo(): void {
+    for (const weapon of this.weapons) {
+      weapon.addAmmo(weapon.definition.ammoPickup);
+    }
     // Update the ammo display in the UI
     this.state.updateAmmoDisplay();
   }
   
-  // Override the fire method to use ammo count
+  // Override the fire method to keep the ammo display current
   fire(): void {
-    if (!this.canFire || this.currentProjectiles <= 0) return;
-    
-    // Deduct a projectile
-    this.currentProjectiles--;
+    if (!this.canFire) return;
 
-    this.state.updateAmmoDisplay();
-    
     // Continue with normal firing logic from Tank class
     super.fire();
+
+    this.state.updateAmmoDisplay();
+  }
+
+  // Switch weapons and show the change in the UI
+  selectWeapon(index: number): boolean {
+    const changed = super.selectWeapon(index);
+    if (changed) {
+      this.state.updateAmmoDisplay();
+    }
+    return changed;
   }
   
   // Apply a speed boost and return a function to revert it
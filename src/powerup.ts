@@ -163,9 +163,9 @@ export class Powerup implements GameObject {
         break;
         
       case PowerupType.AMMO:
-        // Add 10 projectiles
-        player.addProjectiles(10);
-        this.state.showPowerupNotification("Ammo +10", this.getColorForType(this.type));
+        // Top up every weapon
+        player.addAmmo();
+        this.state.showPowerupNotification("Ammo Resupply", this.getColorForType(this.type));
         break;
         
       case PowerupType.SPEED:
@@ -0,0 +1,229 @@
+import { VoxelMaterial } from './voxel';
+import { VoxelWorld } from './voxelWorld';
+import { RandomGenerator } from './random';
+
+/**
+ * JSON prefab format, so structures can be drawn in a text editor instead of written
+ * as setVoxel loops:
+ *
+ *   {
+ *     "format": "voxelzone-prefab",
+ *     "version": 1,
+ *     "name": "Watch Post",            shown in the editor and used by arena layouts
+ *     "palette": {                     one character per entry
+ *       "#": "STONE",                  a VoxelMaterial name
+ *       "w": ["BRICK", "CONCRETE"],    one of these, picked once each time it's placed
+ *       "_": null                      clears whatever is there
+ *     },
+ *     "rotation": "any",               "none", "any", or the allowed quarter turns, e.g. [0, 2]
+ *     "mirror": true,                  whether it may be flipped left to right
+ *     "variants": [                    one is picked each time it's placed
+ *       {
+ *         "origin": [1, 0, 1],         cell stood on the placement point, at ground level
+ *         "layers": [                  bottom layer first; each a list of rows running
+ *           ["###", "#.#", "###"],     north (-z) to south, each row west (-x) to east
+ *           ["#_#", "___", "#_#"]
+ *         ]
+ *       }
+ *     ]
+ *   }
+ *
+ * '.' and ' ' leave a cell as it is. Layers below the origin's are sunk into the ground.
+ * Turns are clockwise seen from above, about the origin, applied after any mirroring.
+ */
+const FORMAT = 'voxelzone-prefab';
+export const PREFAB_FORMAT_VERSION = 1;
+const KEEP_CELLS = new Set(['.', ' ']);
+
+export interface PrefabVariant {
+  origin: { x: number, y: number, z: number };
+  // Palette character for each cell, indexed [y][z][x]
+  layers: string[][];
+}
+
+export interface PrefabDefinition {
+  name: string;
+  palette: Map<string, VoxelMaterial[] | null>;
+  rotations: number[]; // Allowed quarter turns
+  mirror: boolean;
+  variants: PrefabVariant[];
+}
+
+// How to place a prefab; anything left out is picked at random from what the prefab allows
+export interface PrefabPlacement {
+  rotation?: number; // Quarter turns clockwise
+  mirror?: boolean;
+  variant?: number;
+}
+
+// Thrown when a JSON value is not a valid prefab
+export class PrefabFormatError extends Error {
+  constructor(message: string) {
+    super(`Invalid prefab: ${message}`);
+    this.name = 'PrefabFormatError';
+  }
+}
+
+// Check a parsed JSON value against the prefab format
+export function parsePrefab(json: unknown): PrefabDefinition {
+  if (!isObject(json) || json.format !== FORMAT) {
+    throw new PrefabFormatError(`missing "format": "${FORMAT}"`);
+  }
+  if (typeof json.version !== 'number' || json.version > PREFAB_FORMAT_VERSION) {
+    throw new PrefabFormatError(`unsupported version ${json.version}`);
+  }
+  if (typeof json.name !== 'string' || json.name.trim() === '') {
+    throw new PrefabFormatError('missing name');
+  }
+
+  const palette = new Map<string, VoxelMaterial[] | null>();
+  if (!isObject(json.palette)) {
+    throw new PrefabFormatError('missing palette');
+  }
+  for (const [symbol, entry] of Object.entries(json.palette)) {
+    if (symbol.length !== 1 || KEEP_CELLS.has(symbol)) {
+      throw new PrefabFormatError(`palette key "${symbol}" must be a single character other than '.' or ' '`);
+    }
+    if (entry === null) {
+      palette.set(symbol, null);
+      continue;
+    }
+    const names = Array.isArray(entry) ? entry : [entry];
+    if (names.length === 0) {
+      throw new PrefabFormatError(`palette entry "${symbol}" lists no materials`);
+    }
+    palette.set(symbol, names.map(name => parseMaterial(name, symbol)));
+  }
+
+  let rotations: number[];
+  if (json.rotation === undefined || json.rotation === 'none') {
+    rotations = [0];
+  } else if (json.rotation === 'any') {
+    rotations = [0, 1, 2, 3];
+  } else if (Array.isArray(json.rotation) && json.rotation.length > 0
+    && json.rotation.every(turn => Number.isInteger(turn) && turn >= 0 && turn < 4)) {
+    rotations = json.rotation as number[];
+  } else {
+    throw new PrefabFormatError('rotation must be "none", "any" or a list of quarter turns from 0 to 3');
+  }
+
+  if (json.mirror !== undefined && typeof json.mirror !== 'boolean') {
+    throw new PrefabFormatError('mirror must be true or false');
+  }
+  if (!Array.isArray(json.variants) || json.variants.length === 0) {
+    throw new PrefabFormatError('needs at least one variant');
+  }
+
+  return {
+    name: json.name,
+    palette,
+    rotations,
+    mirror: json.mirror ?? false,
+    variants: json.variants.map((variant, index) => parseVariant(variant, index, palette))
+  };
+}
+
+// Fetch and parse a prefab from a URL
+export async function fetchPrefab(url: string): Promise<PrefabDefinition> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load prefab ${url}: ${response.status} ${response.statusText}`);
+  }
+  return parsePrefab(await response.json());
+}
+
+/**
+ * Reads the prefab files to load from the `prefabs` URL parameter (e.g. ?prefabs=prefabs/tower.json,prefabs/wall.json)
+ * @returns The prefab URLs, empty if the parameter is missing
+ */
+export function getPrefabUrlsFromUrl(): string[] {
+  const value = new URLSearchParams(window.location.search).get('prefabs');
+  return value ? value.split(',').map(url => url.trim()).filter(url => url !== '') : [];
+}
+
+/**
+ * Stamps a prefab into the world with its origin on the ground at (x, z)
+ */
+export function stampPrefab(
+  voxelWorld: VoxelWorld,
+  prefab: PrefabDefinition,
+  x: number,
+  z: number,
+  random: RandomGenerator,
+  placement: PrefabPlacement = {}
+): void {
+  // Settle every choice up front, so a prefab uses the same amount of randomness however it's placed
+  const materials = new Map<string, VoxelMaterial | undefined>();
+  for (const [symbol, choices] of prefab.palette) {
+    materials.set(symbol, choices ? choices[Math.floor(random() * choices.length)] : undefined);
+  }
+  const variantRoll = Math.floor(random() * prefab.variants.length);
+  const rotationRoll = prefab.rotations[Math.floor(random() * prefab.rotations.length)];
+  const mirrorRoll = prefab.mirror && random() < 0.5;
+
+  const variant = prefab.variants[placement.variant ?? variantRoll];
+  if (!variant) {
+    throw new Error(`Prefab "${prefab.name}" has no variant ${placement.variant}`);
+  }
+  const rotation = (((placement.rotation ?? rotationRoll) % 4) + 4) % 4;
+  const mirror = placement.mirror ?? mirrorRoll;
+  const groundY = voxelWorld.findSurfaceHeight(x, z);
+
+  variant.layers.forEach((rows, layer) => {
+    rows.forEach((row, rowIndex) => {
+      for (let column = 0; column < row.length; column++) {
+        const symbol = row[column];
+        if (KEEP_CELLS.has(symbol)) continue;
+
+        let dx = column - variant.origin.x;
+        let dz = rowIndex - variant.origin.z;
+        if (mirror) {
+          dx = -dx;
+        }
+        for (let turn = 0; turn < rotation; turn++) {
+          [dx, dz] = [-dz, dx];
+        }
+        voxelWorld.setVoxel({ x: x + dx, y: groundY + layer - variant.origin.y, z: z + dz }, materials.get(symbol));
+      }
+    });
+  });
+}
+
+function parseVariant(json: unknown, index: number, palette: Map<string, VoxelMaterial[] | null>): PrefabVariant {
+  if (!isObject(json)) {
+    throw new PrefabFormatError(`variant ${index} is not an object`);
+  }
+  const origin = json.origin;
+  if (!Array.isArray(origin) || origin.length !== 3 || !origin.every(Number.isInteger)) {
+    throw new PrefabFormatError(`variant ${index} needs an origin of three whole numbers`);
+  }
+  const layers = json.layers;
+  if (!Array.isArray(layers) || layers.length === 0
+    || !layers.every(rows => Array.isArray(rows) && rows.every(row => typeof row === 'string'))) {
+    throw new PrefabFormatError(`variant ${index} needs layers of row strings`);
+  }
+
+  (layers as string[][]).forEach((rows, layer) => {
+    for (const row of rows) {
+      for (const symbol of row) {
+        if (!KEEP_CELLS.has(symbol) && !palette.has(symbol)) {
+          throw new PrefabFormatError(`variant ${index} layer ${layer} uses "${symbol}", which is not in the palette`);
+        }
+      }
+    }
+  });
+
+  return { origin: { x: origin[0], y: origin[1], z: origin[2] }, layers: layers as string[][] };
+}
+
+function parseMaterial(name: unknown, symbol: string): VoxelMaterial {
+  if (typeof name !== 'string' || !Object.prototype.hasOwnProperty.call(VoxelMaterial, name)
+    || typeof VoxelMaterial[name as keyof typeof VoxelMaterial] !== 'number') {
+    throw new PrefabFormatError(`palette entry "${symbol}" has unknown material ${JSON.stringify(name)}`);
+  }
+  return VoxelMaterial[name as keyof typeof VoxelMaterial];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
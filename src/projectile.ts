@@ -9,25 +9,51 @@ export enum ProjectileSource {
   ENEMY
 }
 
+// What a projectile does to the terrain when it hits it
+export interface ImpactBehavior {
+  blastRadius: number;     // Voxels within this radius are damaged; 0 leaves the terrain alone
+  blastDamage: number;     // Damage to voxels at the center of the blast, falling off towards the edge
+  explosionForce: number;  // Impulse pushing nearby physics bodies away
+  penetration: number;     // Breakable voxels the round can bore through before it stops
+  igniteRadius: number;    // Flammable voxels within this radius catch fire
+}
+
+export interface ProjectileOptions {
+  damage: number;       // Hitpoints taken from a tank this hits
+  speed: number;
+  gravityScale: number;
+  radius: number;       // Visual size; the collider is a little smaller
+  glow: boolean;        // Whether it carries a point light
+  impact: ImpactBehavior;
+}
+
 export class Projectile implements GameObject {
   state: PlayState
   mesh: THREE.Mesh;
   body: RAPIER.RigidBody;
   source: ProjectileSource;
+  damage: number; // Hitpoints taken from a tank this hits
+  impact: ImpactBehavior;
   hasCollided: boolean = false;
+  private penetrationLeft: number;
+  private lastVelocity: THREE.Vector3 = new THREE.Vector3(); // Velocity before this frame's physics step
 
   constructor(
     playState: PlayState,
     position: THREE.Vector3,
     direction: THREE.Vector3,
     initialVelocity: THREE.Vector3,
-    source: ProjectileSource = ProjectileSource.PLAYER
+    source: ProjectileSource,
+    options: ProjectileOptions
   ) {
     this.state = playState;
     this.source = source;
+    this.damage = options.damage;
+    this.impact = options.impact;
+    this.penetrationLeft = options.impact.penetration;
 
     // Create projectile mesh with bright, glowing material
-    const projectileGeometry = new THREE.SphereGeometry(0.5, 16, 16);
+    const projectileGeometry = new THREE.SphereGeometry(options.radius, 16, 16);
     const projectileMaterial = new THREE.MeshStandardMaterial({
       color: source === ProjectileSource.PLAYER ? 0xffff00 : 0xff0000,
       wireframe: false,
@@ -39,26 +65,29 @@ export class Projectile implements GameObject {
     this.mesh.position.copy(position);
 
     // Add a point light to the projectile to make it glow
-    const projectileLight = new THREE.PointLight(
-      source === ProjectileSource.PLAYER ? 0xffff00 : 0xff0000,
-      2,
-      10
-    );
-    projectileLight.position.set(0, 0, 0);
-    this.mesh.add(projectileLight);
+    if (options.glow) {
+      const projectileLight = new THREE.PointLight(
+        source === ProjectileSource.PLAYER ? 0xffff00 : 0xff0000,
+        2,
+        10
+      );
+      projectileLight.position.set(0, 0, 0);
+      this.mesh.add(projectileLight);
+    }
 
     // Create projectile physics body
     const rigidBodyDesc = RAPIER.RigidBodyDesc.dynamic()
       .setTranslation(position.x, position.y, position.z)
       .setLinearDamping(0.0) // No drag on projectiles
       .setAngularDamping(0.0) // No angular drag
+      .setGravityScale(options.gravityScale) // Shells arc under gravity; heavier rounds drop faster
       .setCcdEnabled(true);  // Enable continuous collision detection for fast-moving projectiles
 
     const physicsWorld = this.state.physicsWorld;
     this.body = physicsWorld.world.createRigidBody(rigidBodyDesc);
 
     // Create collider (slightly smaller than visual size for better gameplay)
-    const colliderDesc = RAPIER.ColliderDesc.ball(0.4)
+    const colliderDesc = RAPIER.ColliderDesc.ball(options.radius * 0.8)
       .setDensity(1.0)
       .setRestitution(0.5)
       .setFriction(0.0)
@@ -70,9 +99,9 @@ export class Projectile implements GameObject {
     this.body.userData = { mesh: this.mesh };
 
     // Apply velocity in the direction of the turret
-    const projectileSpeed = 150; // Increased projectile speed for more impactful shots
-    const velocity = direction.multiplyScalar(projectileSpeed).add(initialVelocity);
+    const velocity = direction.multiplyScalar(options.speed).add(initialVelocity);
     this.body.setLinvel({ x: velocity.x, y: velocity.y, z: velocity.z }, true);
+    this.lastVelocity.copy(velocity);
     this.body.wakeUp();
 
     // Add to scene
@@ -86,8 +115,8 @@ export class Projectile implements GameObject {
       this.handleCollision(other);
     });
 
-    // Set up auto-destruction after 5 seconds
-    setTimeout(() => this.destroy(), 5000);
+    // Set up auto-destruction after 10 seconds, long enough for a high lob to come down
+    setTimeout(() => this.destroy(), 10000);
   }
 
   // Add a trail effect to the projectile
@@ -168,22 +197,76 @@ export class Projectile implements GameObject {
       return; // Tank collision was handled, no need to proceed
     }
 
-    // Create explosion effect at collision point
-    this.createExplosionEffect(projectileVector);
+    // Armor piercing rounds bore through breakable cover and carry on
+    if (this.penetrateTerrain(projectileVector)) {
+      this.hasCollided = false;
+      return;
+    }
+
+    // Create explosion effect at collision point, scaled to the blast
+    this.createExplosionEffect(projectileVector, Math.max(3, Math.ceil(this.impact.blastRadius * 5)));
 
-    // Convert world position to voxel coordinates for potential voxel destruction
-    const voxelPos = worldToVoxel(projectileVector);
+    if (this.impact.blastRadius > 0) {
+      // Convert world position to voxel coordinates for potential voxel destruction
+      const voxelPos = worldToVoxel(projectileVector);
 
-    // Destroy voxels in a radius around the collision point
-    this.destroyVoxelsInRadius(voxelPos, 2);
+      // Damage voxels in a radius around the collision point
+      this.damageVoxelsInRadius(voxelPos, this.impact.blastRadius, this.impact.blastDamage);
+    }
+
+    // Incendiary rounds set whatever survived the blast alight
+    if (this.impact.igniteRadius > 0) {
+      this.igniteVoxelsInRadius(worldToVoxel(projectileVector), this.impact.igniteRadius);
+    }
 
     // Apply explosive force to nearby physics objects
-    this.applyExplosiveForce(projectileVector, 10, 300);
+    if (this.impact.explosionForce > 0) {
+      this.applyExplosiveForce(projectileVector, 10, this.impact.explosionForce);
+    }
 
     // Destroy the projectile
     this.destroy();
   }
 
+  /**
+   * Bores through voxels along the flight path from the impact point. Stops at the
+   * first voxel too tough to break in one hit, or when the round's penetration is used up.
+   * @returns true if the round made it out the other side and should keep flying
+   */
+  private penetrateTerrain(position: THREE.Vector3): boolean {
+    if (this.penetrationLeft <= 0 || this.lastVelocity.lengthSq() === 0) return false;
+
+    const step = this.lastVelocity.clone().normalize().multiplyScalar(0.5);
+    const point = position.clone();
+    const maxSteps = (this.penetrationLeft + 2) * 2;
+    let bored = false;
+
+    for (let i = 0; i < maxSteps; i++) {
+      const voxelPos = worldToVoxel(point);
+      const voxel = this.state.voxelWorld.getVoxel(voxelPos);
+
+      if (voxel !== undefined && voxelProperties[voxel].solid) {
+        // Each voxel has to break in one hit for the round to get through it
+        if (this.penetrationLeft <= 0 || !this.state.voxelWorld.damageVoxel(voxelPos, this.impact.blastDamage)) {
+          return false;
+        }
+        this.penetrationLeft--;
+        bored = true;
+      } else if (bored) {
+        break; // Out the other side
+      }
+      point.add(step);
+    }
+
+    if (!bored) return false;
+
+    // Keep going where the shell was heading before the physics bounced it, a little slower
+    const velocity = this.lastVelocity.clone().multiplyScalar(0.8);
+    this.body.setTranslation({ x: point.x, y: point.y, z: point.z }, true);
+    this.body.setLinvel({ x: velocity.x, y: velocity.y, z: velocity.z }, true);
+    return true;
+  }
+
   private handleDebrisCollision(other: GameObject): boolean {
     // If we are a player projectile hitting an enemy
     if (this.state.debris.includes(other)) {
@@ -210,7 +293,7 @@ export class Projectile implements GameObject {
         const pos = other.body.translation();
 
         // Call the PlayState's handleEnemyHit method
-        this.state.handleEnemyHit(enemyIndex, new THREE.Vector3(pos.x, pos.y, pos.z));
+        this.state.handleEnemyHit(enemyIndex, new THREE.Vector3(pos.x, pos.y, pos.z), this.damage);
 
         // Destroy this projectile
         this.destroy();
@@ -222,7 +305,7 @@ export class Projectile implements GameObject {
       other === this.state.player) {
 
       // Call the PlayState's handlePlayerHit method
-      this.state.handlePlayerHit();
+      this.state.handlePlayerHit(this.damage);
 
       // Destroy this projectile
       this.destroy();
@@ -307,13 +390,15 @@ export class Projectile implements GameObject {
     // If the projectile has fallen below the world, destroy it
     if (projectilePos.y < -50) {
       this.destroy();
+      return;
     }
-  }
 
-  private createExplosionEffect(position: THREE.Vector3): void {
-    // Create particles for explosion
-    const particleCount = 10;
+    // Remember the velocity before the next physics step, for penetrating rounds
+    const velocity = this.body.linvel();
+    this.lastVelocity.set(velocity.x, velocity.y, velocity.z);
+  }
 
+  private createExplosionEffect(position: THREE.Vector3, particleCount: number = 10): void {
     for (let i = 0; i < particleCount; i++) {
       const size = 0.2 + Math.random() * 0.3;
       const geometry = new THREE.SphereGeometry(size, 8, 8);
@@ -368,7 +453,8 @@ export class Projectile implements GameObject {
     }
   }
 
-  private destroyVoxelsInRadius(center: VoxelCoord, radius: number): void {
+  // Damage voxels around the blast, less the further they are from its center
+  private damageVoxelsInRadius(center: VoxelCoord, radius: number, damage: number): void {
     for (let x = -Math.ceil(radius); x <= Math.ceil(radius); x++) {
       for (let y = -Math.ceil(radius); y <= Math.ceil(radius); y++) {
         for (let z = -Math.ceil(radius); z <= Math.ceil(radius); z++) {
@@ -381,16 +467,26 @@ export class Projectile implements GameObject {
           // Check if position is within explosion radius
           const distance = Math.sqrt(x * x + y * y + z * z);
           if (distance <= radius) {
-            // Get the voxel at this position
-            const voxel = this.state.voxelWorld.getVoxel(checkPos);
+            // The voxel's material decides how much of this it shrugs off
+            const falloff = 1 - distance / (radius + 1);
+            this.state.voxelWorld.damageVoxel(checkPos, damage * falloff);
+          }
+        }
+      }
+    }
+  }
 
-            // Only destroy the voxel if it exists and is breakable
-            if (voxel !== undefined && voxelProperties[voxel].breakable) {
-              this.state.voxelWorld.setVoxel(checkPos, undefined);
-            }
+  // Set flammable voxels around the impact on fire
+  private igniteVoxelsInRadius(center: VoxelCoord, radius: number): void {
+    const extent = Math.ceil(radius);
+    for (let x = -extent; x <= extent; x++) {
+      for (let y = -extent; y <= extent; y++) {
+        for (let z = -extent; z <= extent; z++) {
+          if (Math.sqrt(x * x + y * y + z * z) <= radius) {
+            this.state.voxelWorld.igniteVoxel({ x: center.x + x, y: center.y + y, z: center.z + z });
           }
         }
       }
     }
   }
-}
\ No newline at end of file
+}
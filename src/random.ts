@@ -0,0 +1,72 @@
+/**
+ * Seedable random number generation so that a given seed always produces the
+ * same battlefield. Generators share the signature of Math.random() so they can
+ * be dropped in wherever Math.random() was used.
+ */
+export type RandomGenerator = () => number;
+
+// Independent random streams derived from a single match seed. Keeping them
+// separate means e.g. the number of powerups spawned never shifts enemy spawns.
+export enum RandomStream {
+  ARENA = 'arena',
+  ENEMY_SPAWN = 'enemy-spawn',
+  ENEMY_TYPE = 'enemy-type',
+  POWERUP = 'powerup',
+}
+
+/**
+ * Creates a deterministic generator (mulberry32) returning values in [0, 1)
+ */
+export function createSeededRandom(seed: number): RandomGenerator {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Derives the seed for a named random stream from the match seed
+ */
+export function deriveSeed(seed: number, stream: RandomStream | string): number {
+  // FNV-1a hash of the stream name mixed with the match seed
+  let hash = 0x811c9dc5 ^ (seed >>> 0);
+  for (let i = 0; i < stream.length; i++) {
+    hash ^= stream.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Creates a generator for a named stream of the given match seed
+ */
+export function createRandomStream(seed: number, stream: RandomStream | string): RandomGenerator {
+  return createSeededRandom(deriveSeed(seed, stream));
+}
+
+// Generate a fresh seed for a match that wasn't given one
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0xffffffff) >>> 0;
+}
+
+/**
+ * Reads the match seed from the `seed` URL parameter (e.g. ?seed=12345).
+ * Non-numeric values are hashed so any word can be used as a seed.
+ * @returns The seed, or null if the parameter is missing
+ */
+export function getSeedFromUrl(): number | null {
+  const value = new URLSearchParams(window.location.search).get('seed');
+  if (value === null || value.trim() === '') {
+    return null;
+  }
+
+  if (/^\d+$/.test(value)) {
+    return Number(value) >>> 0;
+  }
+
+  return deriveSeed(0, value);
+}
@@ -0,0 +1,125 @@
+import * as THREE from 'three';
+import { EnemyTank } from './enemyTank';
+
+// What an enemy does while the squad is engaging the player
+export enum SquadRole {
+  CHASER = 'chaser',         // Drives straight at the player
+  FLANKER = 'flanker',       // Swings around to hit the player from the side
+  SUPPRESSOR = 'suppressor', // Holds at firing range and keeps shooting
+}
+
+/**
+ * Shared knowledge for all enemy tanks. Whoever spots the player reports it here
+ * so the rest of the squad can join the hunt, and the tanks engaging the player
+ * are given roles and approach bearings so they come at the player from different
+ * sides instead of queueing up on the same path.
+ */
+export class SquadBlackboard {
+  playerLastKnownPosition: THREE.Vector3 | null = null;
+  lastSightingTime: number = 0;
+  sightingLifetime: number = 15000; // How long a sighting stays worth acting on (ms)
+  roleUpdateInterval: number = 1000; // How often roles are reassigned (ms)
+  flankDistance: number = 20; // How far to the side of the player flankers aim for
+
+  private lastRoleUpdate: number = 0;
+  private chaserBearing: number = 0; // Direction from the player to the chaser (radians around Y)
+  private flankSlots: Map<EnemyTank, number> = new Map(); // Flank offset from the chaser's bearing
+
+  // Share a sighting of the player with the squad
+  reportPlayerSighting(position: THREE.Vector3): void {
+    this.playerLastKnownPosition = position.clone();
+    this.lastSightingTime = Date.now();
+  }
+
+  // Whether the latest sighting is recent enough to act on
+  hasRecentSighting(): boolean {
+    return this.playerLastKnownPosition !== null &&
+      Date.now() - this.lastSightingTime < this.sightingLifetime;
+  }
+
+  // Called every frame; reassigns roles among the tanks engaging the player
+  update(enemies: EnemyTank[]): void {
+    const currentTime = Date.now();
+    if (currentTime - this.lastRoleUpdate < this.roleUpdateInterval) return;
+    this.lastRoleUpdate = currentTime;
+
+    this.assignRoles(enemies);
+  }
+
+  /**
+   * Picks where a tank should head to engage a target, based on its role: the
+   * chaser goes for the target itself, flankers for a point off to the side of
+   * the chaser's line of attack, and suppressors hold back at firing range along
+   * their current bearing
+   */
+  getApproachPoint(tank: EnemyTank, target: THREE.Vector3): THREE.Vector3 {
+    const tankPosition = tank.mesh.position;
+
+    switch (tank.role) {
+      case SquadRole.FLANKER: {
+        const bearing = this.chaserBearing + (this.flankSlots.get(tank) ?? Math.PI / 2);
+        return offsetFrom(target, bearing, Math.min(this.flankDistance, tank.firingRange * 0.8));
+      }
+      case SquadRole.SUPPRESSOR: {
+        const bearing = Math.atan2(tankPosition.x - target.x, tankPosition.z - target.z);
+        return offsetFrom(target, bearing, tank.firingRange * 0.8);
+      }
+      default:
+        return target.clone();
+    }
+  }
+
+  private assignRoles(enemies: EnemyTank[]): void {
+    this.flankSlots.clear();
+
+    // Only tanks hunting the player need roles; everyone else stays a chaser by default
+    const engaged = enemies.filter(enemy => enemy.trackingPlayer);
+    for (const enemy of enemies) {
+      if (!enemy.trackingPlayer) {
+        enemy.role = enemy.archetype.squadRole ?? SquadRole.CHASER;
+      }
+    }
+    if (engaged.length === 0 || !this.playerLastKnownPosition) return;
+
+    // Closest tanks to the player get picked first
+    const target = this.playerLastKnownPosition;
+    engaged.sort((a, b) => a.mesh.position.distanceTo(target) - b.mesh.position.distanceTo(target));
+
+    let chaser: EnemyTank | null = null;
+    let flankers = 0;
+    let others = 0;
+    for (const enemy of engaged) {
+      // Some archetypes (e.g. snipers) always play the same role
+      if (enemy.archetype.squadRole) {
+        enemy.role = enemy.archetype.squadRole;
+      } else if (!chaser) {
+        enemy.role = SquadRole.CHASER;
+        chaser = enemy;
+        continue;
+      } else {
+        // Alternate the rest between flanking and suppressing
+        enemy.role = others++ % 2 === 0 ? SquadRole.FLANKER : SquadRole.SUPPRESSOR;
+      }
+
+      if (enemy.role === SquadRole.FLANKER) {
+        // Flankers alternate sides, fanning out further round the target as more join
+        const side = flankers % 2 === 0 ? 1 : -1;
+        const spread = Math.PI / 2 + Math.floor(flankers / 2) * (Math.PI / 4);
+        this.flankSlots.set(enemy, side * spread);
+        flankers++;
+      }
+    }
+
+    const leader = chaser ?? engaged[0];
+    this.chaserBearing = Math.atan2(leader.mesh.position.x - target.x, leader.mesh.position.z - target.z);
+  }
+}
+
+// Point at a distance from the origin along a bearing (radians around Y, 0 = +Z)
+function offsetFrom(origin: THREE.Vector3, bearing: number, distance: number): THREE.Vector3 {
+  return new THREE.Vector3(
+    origin.x + Math.sin(bearing) * distance,
+    origin.y,
+    origin.z + Math.cos(bearing) * distance
+  );
+}
@@ -1,9 +1,11 @@
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d';
 import { Vehicle } from './types';
-import { Projectile, ProjectileSource } from './projectile';
+import { ProjectileSource } from './projectile';
+import { Weapon, weaponDefinitions } from './weapons';
 import { PlayState } from './playState';
 import { PlayerTank } from './playerTank';
+import { VoxelMaterial, voxelProperties, worldToVoxel, VOXEL_SIZE } from './voxel';
 
 /**
  * Base Tank class for shared functionality between player and enemy tanks
@@ -13,14 +15,34 @@ export abstract class Tank implements Vehicle {
   body: RAPIER.RigidBody;
   speed: number;
   turnSpeed: number;
-  canFire: boolean;
-  lastFired: number;
+  weapons: Weapon[] = [new Weapon(weaponDefinitions.standard, Infinity)];
+  activeWeaponIndex: number = 0;
+  maxTurretRotation: number = Math.PI / 4; // How far the turret can turn either side of the hull (radians)
+  minElevation: number = -Math.PI / 36; // Lowest the barrel can point (radians, -5°)
+  maxElevation: number = Math.PI / 6; // Highest the barrel can point (radians, 30°)
   hitpoints: number = 15; // Starting hitpoints for all tanks
   maxHitpoints: number = 15; // Maximum hitpoints, will increase with levels
-  currentProjectiles: number = 50; // Default projectile count, will be overridden by PlayerTank
+  crushSpeed: number = 2; // Speed needed to drive through light cover like hedges and fences (m/s)
+  ramSpeed: number = 5; // Impact speed above which ramming hurts (m/s)
+  ramDamagePerSpeed: number = 1; // Damage per m/s of impact speed over ramSpeed
+  ramCooldown: number = 1000; // Minimum time between ramming injuries (ms)
+  waterDrag: number = 1.5; // Fraction of horizontal speed lost per second while in water
+  waterTurnFactor: number = 0.5; // Turning speed multiplier while in water
+  inWater: boolean = false;
+  fireDamage: number = 2; // Damage per second from burning voxels next to the hull
+  climbHeight: number = 1.1; // Tallest step above the bottom of the hull the tracks can climb (m)
+  climbSpeed: number = 3; // How fast the hull is lifted onto a step (m/s)
+  private lastRamTime: number = 0;
+  private lastScorchTime: number = 0;
+  private lastVelocity = new THREE.Vector3(); // Velocity before this frame's collisions changed it
+  protected dimensions: { width: number, height: number, depth: number };
   protected turretContainer: THREE.Object3D;
+  protected barrelPivot: THREE.Object3D; // Tilts the cannon up and down
   protected cannonMesh: THREE.Mesh;
   protected state: PlayState;
+  private headlightMaterial: THREE.MeshStandardMaterial; // Shared by both lamps so they switch together
+  private headlightBeam: THREE.SpotLight | null = null;
+  private headlightsOn: boolean = false;
 
   /**
    * Safely access the tank's turret container
@@ -30,6 +52,20 @@ export abstract class Tank implements Vehicle {
     return this.turretContainer;
   }
 
+  // The weapon that fires next
+  get weapon(): Weapon {
+    return this.weapons[this.activeWeaponIndex];
+  }
+
+  // Whether the active weapon has reloaded and has ammo
+  get canFire(): boolean {
+    return this.weapon.isReady();
+  }
+
+  get lastFired(): number {
+    return this.weapon.lastFired;
+  }
+
   constructor(
     playState: PlayState,
     position: THREE.Vector3 = new THREE.Vector3(0, 0.4, 0),
@@ -37,6 +73,7 @@ export abstract class Tank implements Vehicle {
     tankDimensions = { width: 2, height: 0.75, depth: 3 }
   ) {
     this.state = playState;
+    this.dimensions = tankDimensions;
     // Tank body
     const tankGeometry = new THREE.BoxGeometry(
       tankDimensions.width,
@@ -70,10 +107,24 @@ export abstract class Tank implements Vehicle {
     });
     this.cannonMesh = new THREE.Mesh(cannonGeometry, cannonMaterial);
 
+    // The cannon hangs off a pivot at the back of the barrel so it elevates around its breech
+    this.barrelPivot = new THREE.Object3D();
+    this.barrelPivot.position.set(0, tankDimensions.height / 4, 0);
+    this.turretContainer.add(this.barrelPivot);
+
     // Position and rotate the cannon to be centered in the turret
-    this.cannonMesh.position.set(0, tankDimensions.height / 4, cannonLength / 2); // Move forward by half its length
+    this.cannonMesh.position.set(0, 0, cannonLength / 2); // Move forward by half its length
     this.cannonMesh.rotation.x = Math.PI / 2; // Rotate to point forward
-    this.turretContainer.add(this.cannonMesh);
+    this.barrelPivot.add(this.cannonMesh);
+
+    // Headlamps on the front of the hull, dark until night falls
+    this.headlightMaterial = new THREE.MeshStandardMaterial({ color: 0x444433, emissive: 0xfff2cc, emissiveIntensity: 0 });
+    const headlightGeometry = new THREE.BoxGeometry(0.3, 0.15, 0.05);
+    for (const side of [-1, 1]) {
+      const lamp = new THREE.Mesh(headlightGeometry, this.headlightMaterial);
+      lamp.position.set(side * (tankDimensions.width / 2 - 0.3), tankDimensions.height / 4, tankDimensions.depth / 2 + 0.025);
+      this.mesh.add(lamp);
+    }
 
     // Set initial position
     this.mesh.position.copy(position);
@@ -82,13 +133,11 @@ export abstract class Tank implements Vehicle {
     // For now, just initialize properties
     this.speed = 50;
     this.turnSpeed = 5;
-    this.canFire = true;
-    this.lastFired = 0;
 
     // The body will be set when added to the scene in game.ts
     // Create physics body for the tank
     this.body = createVehicleBody(
-      { width: 2, height: 0.75, depth: 3 },
+      tankDimensions,
       500,
       this.state.physicsWorld.world,
     );
@@ -98,6 +147,35 @@ export abstract class Tank implements Vehicle {
 
     // Link the mesh to the physics body for updates
     this.body.userData = { mesh: this.mesh };
+
+    // Running into another tank hurts both
+    this.state.physicsWorld.registerCollisionHandler(this, (other) => {
+      if (other instanceof Tank) {
+        this.ram(this.lastVelocity.distanceTo(other.lastVelocity));
+      }
+    });
+  }
+
+  /**
+   * Give the tank a beam that lights up the ground ahead when its headlights are on.
+   * Only the player's tank has one: every light in the scene costs shader time on
+   * every voxel, so enemy tanks just show their lamps.
+   */
+  protected createHeadlightBeam(): void {
+    this.headlightBeam = new THREE.SpotLight(0xfff2cc, 0, 60, Math.PI / 5, 0.5, 1);
+    this.headlightBeam.position.set(0, this.dimensions.height / 4, this.dimensions.depth / 2);
+    this.headlightBeam.target.position.set(0, -1, this.dimensions.depth / 2 + 10);
+    this.mesh.add(this.headlightBeam, this.headlightBeam.target);
+  }
+
+  // Switch the headlights on or off
+  setHeadlights(on: boolean): void {
+    if (on === this.headlightsOn) return;
+    this.headlightsOn = on;
+    this.headlightMaterial.emissiveIntensity = on ? 2 : 0;
+    if (this.headlightBeam) {
+      this.headlightBeam.intensity = on ? 30 : 0;
+    }
   }
 
   // Helper method to create slightly darker color for cannon
@@ -129,6 +207,12 @@ export abstract class Tank implements Vehicle {
       { x: forward.x, y: 0, z: forward.z }, // Lock Y component to prevent jumping
       true
     );
+
+    // Terrain rises in whole voxel steps, taller than a box hull can drive up on its own
+    const heading = forward.setY(0);
+    if (heading.lengthSq() > 0) {
+      this.climbStep(heading.normalize());
+    }
   }
 
   turn(direction: number): void {
@@ -145,10 +229,13 @@ export abstract class Tank implements Vehicle {
     );
 
     // Create a rotation quaternion for the turn
+    // Tracks get less grip in water
+    const turnSpeed = this.inWater ? this.turnSpeed * this.waterTurnFactor : this.turnSpeed;
+
     const turnQuat = new THREE.Quaternion();
     turnQuat.setFromAxisAngle(
       new THREE.Vector3(0, 1, 0), // Y-axis rotation
-      direction * this.turnSpeed * 0.005 // Reduced from 0.01 to 0.005 for smoother rotation
+      direction * turnSpeed * 0.005 // Reduced from 0.01 to 0.005 for smoother rotation
     );
 
     // Combine rotations
@@ -164,27 +251,13 @@ export abstract class Tank implements Vehicle {
 
     // Also apply a small amount of torque to make the rotation feel more natural
     // and to overcome any friction
-    const torque = { x: 0, y: direction * this.turnSpeed * 0.2, z: 0 }; // Reduced from 0.5 to 0.2
+    const torque = { x: 0, y: direction * turnSpeed * 0.2, z: 0 }; // Reduced from 0.5 to 0.2
     this.body.applyTorqueImpulse(torque, true);
   }
 
   fire(): void {
-    if (!this.canFire || this.currentProjectiles <= 0) return;
-
-    // Continue with normal firing logic
-    // Calculate the cannon tip position in world space
-    const cannonWorldPosition = new THREE.Vector3();
-    this.cannonMesh.getWorldPosition(cannonWorldPosition);
-
-    // Calculate forward direction based on turret's rotation
-    const forward = new THREE.Vector3(0, 0, 1);
-    const turretWorldQuaternion = new THREE.Quaternion();
-    this.turretContainer.getWorldQuaternion(turretWorldQuaternion);
-    forward.applyQuaternion(turretWorldQuaternion);
-    forward.normalize();
-
-    // Position the projectile at the tip of the cannon
-    const cannonTip = cannonWorldPosition.clone().add(forward.clone().multiplyScalar(1.5));
+    const forward = this.getMuzzleDirection();
+    const cannonTip = this.getMuzzlePosition();
 
     // Get tank's current velocity to add to projectile
     const tankVel = this.body.linvel();
@@ -195,27 +268,17 @@ export abstract class Tank implements Vehicle {
       ? ProjectileSource.PLAYER
       : ProjectileSource.ENEMY;
 
-    // Create new projectile using the Projectile class
-    const projectile = new Projectile(
-      this.state,
-      cannonTip,
-      forward.clone(),
-      initialVelocity,
-      source
-    );
-
-    // Add to physics world
-    this.state.physicsWorld.addBody(projectile);
-
-    // Add projectile to PlayState's projectiles array
-    this.state.projectiles.push(projectile);
+    // The weapon handles its own reload and ammo
+    this.weapon.fire(this.state, cannonTip, forward, initialVelocity, source);
+  }
 
-    // Set cooldown
-    this.canFire = false;
-    this.lastFired = Date.now();
-    setTimeout(() => {
-      this.canFire = true;
-    }, 500); // 500ms cooldown between shots
+  // Switch to the weapon at the given index, if the tank has one there
+  selectWeapon(index: number): boolean {
+    if (index < 0 || index >= this.weapons.length || index === this.activeWeaponIndex) {
+      return false;
+    }
+    this.activeWeaponIndex = index;
+    return true;
   }
 
   rotateTurret(direction: number): void {
@@ -228,13 +291,212 @@ export abstract class Tank implements Vehicle {
     // Calculate new rotation
     const newRotation = this.turretContainer.rotation.y + rotationAmount;
 
-    // Limit rotation to ±45 degrees (±π/4 radians)
-    const maxRotation = Math.PI / 4;
-    this.turretContainer.rotation.y = Math.max(-maxRotation, Math.min(maxRotation, newRotation));
+    // Limit rotation to the turret's traverse
+    this.turretContainer.rotation.y = Math.max(-this.maxTurretRotation, Math.min(this.maxTurretRotation, newRotation));
+  }
+
+  // Tilt the barrel up (positive) or down, using the same mouse/keyboard scaling as rotateTurret
+  elevateBarrel(direction: number): void {
+    const elevationAmount = Math.abs(direction) <= 0.1
+      ? direction
+      : direction * 0.01;
+    this.setElevation(this.getElevation() + elevationAmount);
+  }
+
+  // Barrel elevation above the turret's horizontal (radians)
+  getElevation(): number {
+    return -this.barrelPivot.rotation.x;
+  }
+
+  setElevation(angle: number): void {
+    this.barrelPivot.rotation.x = -Math.max(this.minElevation, Math.min(this.maxElevation, angle));
+  }
+
+  // World space direction the barrel is pointing
+  getMuzzleDirection(): THREE.Vector3 {
+    const barrelWorldQuaternion = new THREE.Quaternion();
+    this.barrelPivot.getWorldQuaternion(barrelWorldQuaternion);
+    return new THREE.Vector3(0, 0, 1).applyQuaternion(barrelWorldQuaternion).normalize();
+  }
+
+  // Where shells leave the barrel, just past the cannon tip
+  getMuzzlePosition(): THREE.Vector3 {
+    const cannonWorldPosition = new THREE.Vector3();
+    this.cannonMesh.getWorldPosition(cannonWorldPosition);
+    return cannonWorldPosition.add(this.getMuzzleDirection().multiplyScalar(1.5));
+  }
+
+  // Downward acceleration on the active weapon's rounds (m/s²)
+  getShellGravity(): number {
+    return Math.abs(this.state.physicsWorld.world.gravity.y) * this.weapon.definition.gravityScale;
   }
 
   update(delta: number): void {
     // The physics world now handles updating the mesh position
+    this.crushAhead();
+
+    // Water drags on the hull
+    this.inWater = this.isInWater();
+    if (this.inWater) {
+      const velocity = this.body.linvel();
+      const drag = Math.max(0, 1 - this.waterDrag * delta);
+      this.body.setLinvel({ x: velocity.x * drag, y: velocity.y, z: velocity.z * drag }, true);
+    }
+
+    // Fire next to the hull scorches it once a second
+    const now = Date.now();
+    if (now - this.lastScorchTime >= 1000) {
+      const center = this.body.translation();
+      const voxelPos = worldToVoxel(new THREE.Vector3(center.x, center.y, center.z));
+      if (this.state.voxelWorld.isBurningNear(voxelPos, 2)) {
+        this.lastScorchTime = now;
+        this.takeEnvironmentDamage(this.fireDamage);
+      }
+    }
+
+    const velocity = this.body.linvel();
+    this.lastVelocity.set(velocity.x, velocity.y, velocity.z);
+  }
+
+  // Whether the bottom of the hull is in a water voxel
+  private isInWater(): boolean {
+    const center = this.body.translation();
+    const probe = new THREE.Vector3(center.x, center.y - this.dimensions.height / 2 + 0.3, center.z);
+    return this.state.voxelWorld.getVoxel(worldToVoxel(probe)) === VoxelMaterial.WATER;
+  }
+
+  /**
+   * Check the voxels just ahead of the hull in the direction of travel. Light cover
+   * is knocked loose as debris; driving into anything solid too fast damages the tank.
+   */
+  private crushAhead(): void {
+    const velocity = this.body.linvel();
+    const heading = new THREE.Vector3(velocity.x, 0, velocity.z);
+    const speed = heading.length();
+    if (speed < this.crushSpeed) return;
+    heading.divideScalar(speed);
+
+    // Probe the hull face the tank is moving into, just beyond its edge
+    const halfExtent = this.getHalfExtent(heading);
+    const center = this.body.translation();
+    const bottom = center.y - this.dimensions.height / 2;
+    const reach = halfExtent + 0.6;
+    const stepHeight = 0.6; // Voxels lower than this are driven over, not rammed
+
+    const voxelWorld = this.state.voxelWorld;
+    const crushImpulse = heading.clone().multiplyScalar(speed * 0.5).setY(1);
+    let crushed = 0;
+    let blocked = false;
+    for (let across = -this.dimensions.width / 2; across <= this.dimensions.width / 2; across += 0.5) {
+      for (let up = 0.3; up <= this.dimensions.height + 0.3; up += 0.5) {
+        const probe = new THREE.Vector3(center.x, bottom + up, center.z)
+          .addScaledVector(heading, reach)
+          .addScaledVector(new THREE.Vector3(heading.z, 0, -heading.x), across);
+        const voxelPos = worldToVoxel(probe);
+        const material = voxelWorld.getVoxel(voxelPos);
+        if (material === undefined || !voxelProperties[material].solid) continue;
+
+        if (voxelWorld.crushVoxel(voxelPos, crushImpulse)) {
+          crushed++;
+        } else if (up >= stepHeight) {
+          blocked = true;
+        }
+      }
+    }
+
+    // Pushing through cover costs a little momentum
+    if (crushed > 0) {
+      const drag = Math.pow(0.97, crushed);
+      this.body.setLinvel({ x: velocity.x * drag, y: velocity.y, z: velocity.z * drag }, true);
+    }
+
+    // Steps the tracks can climb aren't rammed
+    if (blocked && this.measureStep(heading) > this.climbHeight) {
+      this.ram(speed);
+    }
+  }
+
+  // Lift the hull while a step it can climb is right ahead in the direction it's driving
+  private climbStep(heading: THREE.Vector3): void {
+    const rise = this.measureStep(heading);
+    if (rise <= 0.05 || rise > this.climbHeight) return;
+
+    const velocity = this.body.linvel();
+    if (velocity.y < this.climbSpeed) {
+      this.body.setLinvel({ x: velocity.x, y: this.climbSpeed, z: velocity.z }, true);
+    }
+  }
+
+  /**
+   * How far the ground just ahead of the hull rises above the bottom of it: 0 for level
+   * or falling ground, Infinity when something too tall to climb is in the way
+   */
+  private measureStep(heading: THREE.Vector3): number {
+    const center = this.body.translation();
+    const bottom = center.y - this.dimensions.height / 2;
+    const reach = this.getHalfExtent(heading) + 0.3;
+    const across = new THREE.Vector3(heading.z, 0, -heading.x);
+    const lowest = Math.round(bottom / VOXEL_SIZE);
+    const highest = Math.round((bottom + this.climbHeight + this.dimensions.height) / VOXEL_SIZE);
+    const voxelWorld = this.state.voxelWorld;
+
+    let rise = 0;
+    for (let offset = -this.dimensions.width / 2 + 0.25; offset < this.dimensions.width / 2; offset += 0.5) {
+      // Voxels are centered on whole coordinates
+      const x = Math.round((center.x + heading.x * reach + across.x * offset) / VOXEL_SIZE);
+      const z = Math.round((center.z + heading.z * reach + across.z * offset) / VOXEL_SIZE);
+
+      let columnRise = 0;
+      for (let y = lowest; y <= highest; y++) {
+        const material = voxelWorld.getVoxel({ x, y, z });
+        if (material === undefined || !voxelProperties[material].solid) continue;
+
+        const top = (y + 0.5) * VOXEL_SIZE - bottom;
+        if (top <= this.climbHeight) {
+          columnRise = Math.max(columnRise, top);
+        } else if (top - VOXEL_SIZE < columnRise + this.dimensions.height) {
+          // Too tall, or no room for the hull on top of the step
+          return Infinity;
+        }
+      }
+      rise = Math.max(rise, columnRise);
+    }
+    return rise;
+  }
+
+  // Distance from the center of the hull to its edge in a horizontal direction
+  private getHalfExtent(heading: THREE.Vector3): number {
+    const rotation = this.body.rotation();
+    const quat = new THREE.Quaternion(rotation.x, rotation.y, rotation.z, rotation.w);
+    const forward = new THREE.Vector3(0, 0, 1).applyQuaternion(quat).setY(0).normalize();
+    const side = new THREE.Vector3(forward.z, 0, -forward.x);
+    return Math.abs(heading.dot(forward)) * this.dimensions.depth / 2
+      + Math.abs(heading.dot(side)) * this.dimensions.width / 2;
+  }
+
+  // Take collision damage from hitting something at the given speed
+  private ram(impactSpeed: number): void {
+    if (impactSpeed <= this.ramSpeed) return;
+
+    const now = Date.now();
+    if (now - this.lastRamTime < this.ramCooldown) return;
+    this.lastRamTime = now;
+
+    this.takeEnvironmentDamage(Math.ceil((impactSpeed - this.ramSpeed) * this.ramDamagePerSpeed));
+  }
+
+  // Damage from the world rather than a shell, routed through the play state so kills are
+  // handled like any other, but without a shell hit's explosion and sound
+  private takeEnvironmentDamage(damage: number): void {
+    if (this instanceof PlayerTank) {
+      this.state.handlePlayerHit(damage, false);
+    } else {
+      const enemyIndex = this.state.enemies.indexOf(this);
+      if (enemyIndex !== -1) {
+        const position = this.body.translation();
+        this.state.handleEnemyHit(enemyIndex, new THREE.Vector3(position.x, position.y, position.z), damage, false);
+      }
+    }
   }
 
   // Method to check status and take damage
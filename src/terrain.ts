@@ -0,0 +1,156 @@
+import { VoxelWorld } from './voxelWorld';
+import { VoxelMaterial } from './voxel';
+import { RandomGenerator } from './random';
+
+// Smooth noise over the XZ plane, returning values in [-1, 1]
+export type Noise2D = (x: number, z: number) => number;
+
+// Height, in voxels, of the ground in each column
+export type HeightFunction = (x: number, z: number) => number;
+
+// What hills are made of: a surface layer over soil on gentle ground, bare rock elsewhere
+export interface HeightfieldMaterials {
+  surface: VoxelMaterial;
+  soil: VoxelMaterial;
+  rock: VoxelMaterial;
+}
+
+export const defaultHeightfieldMaterials: HeightfieldMaterials = {
+  surface: VoxelMaterial.GRASS,
+  soil: VoxelMaterial.DIRT,
+  rock: VoxelMaterial.STONE
+};
+
+const ROCK_LINE = 12; // Columns at least this tall get a bare stone top
+
+// Gradient directions for the noise lattice
+const GRADIENTS: Array<[number, number]> = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [-1, 1], [1, -1], [-1, -1]
+];
+
+/**
+ * Creates seeded 2D gradient noise: a lattice of random gradients, one per whole
+ * coordinate, blended smoothly in between. The same generator state always gives
+ * the same noise, so terrain built from it follows the match seed.
+ */
+export function createNoise2D(random: RandomGenerator): Noise2D {
+  // Shuffled lookup table that picks a gradient for each lattice point
+  const permutation = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = permutation.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [permutation[i], permutation[j]] = [permutation[j], permutation[i]];
+  }
+  const table = new Uint8Array(512);
+  for (let i = 0; i < table.length; i++) {
+    table[i] = permutation[i & 255];
+  }
+
+  const dot = (ix: number, iz: number, dx: number, dz: number): number => {
+    const [gx, gz] = GRADIENTS[table[table[ix & 255] + (iz & 255)] & 7];
+    return gx * dx + gz * dz;
+  };
+
+  return (x, z) => {
+    const x0 = Math.floor(x);
+    const z0 = Math.floor(z);
+    const dx = x - x0;
+    const dz = z - z0;
+    const u = fade(dx);
+    const v = fade(dz);
+
+    const bottom = lerp(dot(x0, z0, dx, dz), dot(x0 + 1, z0, dx - 1, dz), u);
+    const top = lerp(dot(x0, z0 + 1, dx, dz - 1), dot(x0 + 1, z0 + 1, dx - 1, dz - 1), u);
+    return Math.max(-1, Math.min(1, lerp(bottom, top, v)));
+  };
+}
+
+/**
+ * Sums octaves of noise, each at twice the frequency and half the strength of the
+ * last, for broad shapes with finer detail on top
+ * @returns A value in [-1, 1]
+ */
+export function fractalNoise(noise: Noise2D, x: number, z: number, octaves: number): number {
+  let total = 0;
+  let amplitude = 1;
+  let frequency = 1;
+  let range = 0;
+  for (let i = 0; i < octaves; i++) {
+    total += noise(x * frequency, z * frequency) * amplitude;
+    range += amplitude;
+    amplitude /= 2;
+    frequency *= 2;
+  }
+  return total / range;
+}
+
+/**
+ * Sharp-crested ridges: 1 along the lines where the noise crosses zero, falling
+ * away to 0 on either side, which reads as mountain ridges with valleys between
+ * @returns A value in [0, 1]
+ */
+export function ridgeNoise(noise: Noise2D, x: number, z: number, octaves: number): number {
+  const crest = 1 - Math.abs(fractalNoise(noise, x, z, octaves));
+  return crest * crest;
+}
+
+// Eases from 0 at edge0 to 1 at edge1
+export function smoothstep(edge0: number, edge1: number, value: number): number {
+  const t = Math.max(0, Math.min(1, (value - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Fills voxel columns up to the height given for each one. Ground gentle enough for
+ * a tank to drive up (no drop of more than a voxel to a neighbor) gets the surface
+ * material over soil, which granular soil can also hold without sliding; steeper faces
+ * and high peaks are bare rock. Columns with a height of zero or less are left empty.
+ */
+export function generateHeightfield(
+  voxelWorld: VoxelWorld,
+  bounds: { minX: number, maxX: number, minZ: number, maxZ: number },
+  heightAt: HeightFunction,
+  materials: HeightfieldMaterials = defaultHeightfieldMaterials
+): void {
+  // Work out every height once, with a border so the edge columns can see their neighbors
+  const width = bounds.maxX - bounds.minX + 3;
+  const depth = bounds.maxZ - bounds.minZ + 3;
+  const heights = new Int16Array(width * depth);
+  for (let i = 0; i < width; i++) {
+    for (let j = 0; j < depth; j++) {
+      heights[i * depth + j] = Math.round(heightAt(bounds.minX - 1 + i, bounds.minZ - 1 + j));
+    }
+  }
+  const columnHeight = (x: number, z: number) => heights[(x - bounds.minX + 1) * depth + (z - bounds.minZ + 1)];
+
+  for (let x = bounds.minX; x <= bounds.maxX; x++) {
+    for (let z = bounds.minZ; z <= bounds.maxZ; z++) {
+      const height = columnHeight(x, z);
+      if (height <= 0) continue;
+
+      const lowestNeighbor = Math.min(
+        columnHeight(x + 1, z), columnHeight(x - 1, z),
+        columnHeight(x, z + 1), columnHeight(x, z - 1)
+      );
+      const gentle = height - lowestNeighbor <= 1 && height < ROCK_LINE;
+
+      for (let y = 0; y < height; y++) {
+        let material = materials.rock;
+        if (gentle && y === height - 1) {
+          material = materials.surface;
+        } else if (gentle && y === height - 2) {
+          material = materials.soil;
+        }
+        voxelWorld.setVoxel({ x, y, z }, material);
+      }
+    }
+  }
+}
+
+function fade(t: number): number {
+  return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
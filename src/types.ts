@@ -50,6 +50,9 @@ export interface InputState {
   turretRight: boolean; // For E key
   mouseX: number;       // For mouse position X
   mouseDeltaX: number;  // For mouse movement delta X
+  mouseDeltaY: number;  // For mouse movement delta Y (barrel elevation)
+  barrelUp: boolean;    // For T key
+  barrelDown: boolean;  // For G key
 }
 
 export interface PhysicsWorld {
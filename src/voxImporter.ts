@@ -0,0 +1,461 @@
+import { VoxelMaterial, VoxelCoord, voxelProperties, getVoxelKey } from './voxel';
+import { CHUNK_SIZE } from './voxelWorld';
+import { VoxelMap } from './voxelMapFormat';
+import { PrefabDefinition } from './prefabFormat';
+
+/**
+ * MagicaVoxel .vox import (little endian):
+ *
+ *   magic    4 bytes "VOX "
+ *   version  int32
+ *   MAIN     chunk whose children are the rest of the file
+ *
+ * Every chunk is { id 4 bytes, contentSize int32, childrenSize int32, content, children }.
+ * The ones read here:
+ *   SIZE  x, y, z int32: size of the next model
+ *   XYZI  count int32, then count x { x, y, z, colorIndex uint8 }: that model's voxels
+ *   RGBA  256 x { r, g, b, a uint8 }: entry i is colour index i + 1 (the default palette if missing)
+ *   nTRN, nGRP, nSHP: scene graph placing models with translations and quarter-turn rotations
+ * Anything else (materials, layers, cameras, notes) is skipped.
+ *
+ * MagicaVoxel is z-up, so a model's (x, y, z) becomes (x, z, -y) here to keep it the
+ * right way round. Colours become materials through an explicit palette index table,
+ * falling back to the material whose colour is nearest.
+ */
+const MAGIC = 'VOX ';
+const CHUNK_HEADER_SIZE = 12;
+
+// A voxel of the whole scene, in game axes (y up)
+export interface VoxVoxel {
+  x: number;
+  y: number;
+  z: number;
+  colorIndex: number; // 1-255
+}
+
+export interface VoxScene {
+  voxels: VoxVoxel[];
+  palette: number[]; // 0xRRGGBB for each colour index; index 0 is unused
+}
+
+export interface VoxImportOptions {
+  // Material for a palette index, or null to leave that colour out; other indexes use the nearest colour
+  materials?: Record<number, VoxelMaterial | null>;
+}
+
+// Thrown when a buffer is not a valid .vox file
+export class VoxFormatError extends Error {
+  constructor(message: string) {
+    super(`Invalid .vox file: ${message}`);
+    this.name = 'VoxFormatError';
+  }
+}
+
+interface VoxModel {
+  size: VoxelCoord;
+  voxels: Uint8Array; // x, y, z, colorIndex per voxel
+}
+
+// Scene graph nodes, by node id
+type SceneNode =
+  | { type: 'transform', child: number, rotation: number[][], translation: VoxelCoord, hidden: boolean }
+  | { type: 'group', children: number[] }
+  | { type: 'shape', models: number[] };
+
+const IDENTITY = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+
+// Decode a .vox file into its voxels, with every model placed where the scene puts it
+export function decodeVox(buffer: ArrayBuffer): VoxScene {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 8 + CHUNK_HEADER_SIZE || readId(view, 0) !== MAGIC) {
+    throw new VoxFormatError('missing "VOX " header');
+  }
+  if (readId(view, 8) !== 'MAIN') {
+    throw new VoxFormatError('missing MAIN chunk');
+  }
+
+  const models: VoxModel[] = [];
+  const nodes = new Map<number, SceneNode>();
+  let palette = defaultPalette();
+  let pendingSize: VoxelCoord | null = null;
+
+  // MAIN's children are a flat run of chunks
+  let offset = 8 + CHUNK_HEADER_SIZE + view.getInt32(12, true);
+  while (offset < buffer.byteLength) {
+    if (offset + CHUNK_HEADER_SIZE > buffer.byteLength) {
+      throw new VoxFormatError(`truncated chunk header at byte ${offset}`);
+    }
+    const id = readId(view, offset);
+    const contentSize = view.getInt32(offset + 4, true);
+    const childrenSize = view.getInt32(offset + 8, true);
+    const content = offset + CHUNK_HEADER_SIZE;
+    if (contentSize < 0 || childrenSize < 0 || content + contentSize + childrenSize > buffer.byteLength) {
+      throw new VoxFormatError(`${id} chunk at byte ${offset} runs past the end of the file`);
+    }
+    const reader = new ChunkReader(view, content, content + contentSize, id);
+
+    switch (id) {
+      case 'SIZE':
+        pendingSize = { x: reader.int32(), y: reader.int32(), z: reader.int32() };
+        break;
+      case 'XYZI': {
+        if (!pendingSize) {
+          throw new VoxFormatError(`XYZI chunk at byte ${offset} has no SIZE before it`);
+        }
+        const count = reader.int32();
+        models.push({ size: pendingSize, voxels: reader.bytes(count * 4) });
+        pendingSize = null;
+        break;
+      }
+      case 'RGBA':
+        palette = [0];
+        for (let i = 0; i < 255; i++) {
+          const [r, g, b] = reader.bytes(4);
+          palette.push((r << 16) | (g << 8) | b);
+        }
+        break;
+      case 'nTRN': {
+        const nodeId = reader.int32();
+        const attributes = reader.dict();
+        const child = reader.int32();
+        reader.int32(); // Reserved
+        reader.int32(); // Layer
+        const frameCount = reader.int32();
+        const frame = frameCount > 0 ? reader.dict() : new Map<string, string>();
+        const [tx, ty, tz] = (frame.get('_t') ?? '0 0 0').split(' ').map(Number);
+        nodes.set(nodeId, {
+          type: 'transform',
+          child,
+          rotation: frame.has('_r') ? decodeRotation(Number(frame.get('_r'))) : IDENTITY,
+          translation: { x: tx || 0, y: ty || 0, z: tz || 0 },
+          hidden: attributes.get('_hidden') === '1'
+        });
+        break;
+      }
+      case 'nGRP': {
+        const nodeId = reader.int32();
+        reader.dict();
+        const childCount = reader.int32();
+        const children: number[] = [];
+        for (let i = 0; i < childCount; i++) {
+          children.push(reader.int32());
+        }
+        nodes.set(nodeId, { type: 'group', children });
+        break;
+      }
+      case 'nSHP': {
+        const nodeId = reader.int32();
+        reader.dict();
+        const modelCount = reader.int32();
+        const shapeModels: number[] = [];
+        for (let i = 0; i < modelCount; i++) {
+          shapeModels.push(reader.int32());
+          reader.dict();
+        }
+        nodes.set(nodeId, { type: 'shape', models: shapeModels });
+        break;
+      }
+    }
+    offset = content + contentSize + childrenSize;
+  }
+
+  if (models.length === 0) {
+    throw new VoxFormatError('no models');
+  }
+
+  const voxels: VoxVoxel[] = [];
+  const addModel = (model: VoxModel, place: (p: VoxelCoord) => VoxelCoord) => {
+    for (let i = 0; i < model.voxels.length; i += 4) {
+      const p = place({ x: model.voxels[i], y: model.voxels[i + 1], z: model.voxels[i + 2] });
+      voxels.push({ x: p.x, y: p.z, z: -p.y, colorIndex: model.voxels[i + 3] });
+    }
+  };
+
+  if (nodes.has(0)) {
+    // Walk the scene from its root, building up each transform on the way down
+    const visit = (nodeId: number, rotation: number[][], translation: VoxelCoord, depth: number) => {
+      const node = nodes.get(nodeId);
+      if (!node || depth > 64) {
+        throw new VoxFormatError(`scene graph refers to missing or looping node ${nodeId}`);
+      }
+      if (node.type === 'transform') {
+        if (node.hidden) return;
+        const moved = rotate(rotation, node.translation);
+        visit(node.child, multiply(rotation, node.rotation), {
+          x: translation.x + moved.x, y: translation.y + moved.y, z: translation.z + moved.z
+        }, depth + 1);
+      } else if (node.type === 'group') {
+        node.children.forEach(child => visit(child, rotation, translation, depth + 1));
+      } else {
+        for (const modelId of node.models) {
+          const model = models[modelId];
+          if (!model) {
+            throw new VoxFormatError(`scene graph refers to missing model ${modelId}`);
+          }
+          // Models are placed by their middle
+          const half = { x: Math.floor(model.size.x / 2), y: Math.floor(model.size.y / 2), z: Math.floor(model.size.z / 2) };
+          addModel(model, p => {
+            const turned = rotate(rotation, { x: p.x - half.x, y: p.y - half.y, z: p.z - half.z });
+            return { x: turned.x + translation.x, y: turned.y + translation.y, z: turned.z + translation.z };
+          });
+        }
+      }
+    };
+    visit(0, IDENTITY, { x: 0, y: 0, z: 0 }, 0);
+  } else {
+    // Older files without a scene just have their models at the origin
+    models.forEach(model => addModel(model, p => p));
+  }
+
+  return { voxels, palette };
+}
+
+// Fetch and decode a .vox file from a URL
+export async function fetchVox(url: string): Promise<VoxScene> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load .vox file ${url}: ${response.status} ${response.statusText}`);
+  }
+  return decodeVox(await response.arrayBuffer());
+}
+
+// Whether a URL names a MagicaVoxel file rather than one of our own formats
+export function isVoxUrl(url: string): boolean {
+  return /\.vox($|[?#])/i.test(url);
+}
+
+/**
+ * Works out the material for every palette index: the explicit one if given, otherwise
+ * the material whose colour is nearest
+ * @returns Materials by colour index; undefined for colours that are left out
+ */
+export function paletteToMaterials(palette: number[], options: VoxImportOptions = {}): Array<VoxelMaterial | undefined> {
+  const materials = Object.values(VoxelMaterial).filter((value): value is VoxelMaterial => typeof value === 'number');
+  return palette.map((color, index) => {
+    const explicit = options.materials?.[index];
+    if (explicit !== undefined) {
+      return explicit ?? undefined;
+    }
+    let nearest = materials[0];
+    let nearestDistance = Infinity;
+    for (const material of materials) {
+      const distance = colorDistance(color, voxelProperties[material].color);
+      if (distance < nearestDistance) {
+        nearest = material;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  });
+}
+
+/**
+ * Turns a .vox scene into a prefab standing on the middle of its footprint, which can
+ * be registered and placed like any other prefab, at any quarter turn
+ */
+export function voxToPrefab(scene: VoxScene, name: string, options: VoxImportOptions = {}): PrefabDefinition {
+  const materials = paletteToMaterials(scene.palette, options);
+  const cells = placedVoxels(scene, materials);
+  if (cells.length === 0) {
+    throw new VoxFormatError('every voxel was left out by the material table');
+  }
+  const bounds = boundsOf(cells);
+
+  // One palette character per material used
+  const palette = new Map<string, VoxelMaterial[] | null>();
+  const symbols = new Map<VoxelMaterial, string>();
+  for (const cell of cells) {
+    if (!symbols.has(cell.material)) {
+      const symbol = String.fromCharCode('a'.charCodeAt(0) + symbols.size);
+      symbols.set(cell.material, symbol);
+      palette.set(symbol, [cell.material]);
+    }
+  }
+
+  const width = bounds.maxX - bounds.minX + 1;
+  const depth = bounds.maxZ - bounds.minZ + 1;
+  const grid: string[][][] = [];
+  for (let y = bounds.minY; y <= bounds.maxY; y++) {
+    grid.push(Array.from({ length: depth }, () => new Array<string>(width).fill('.')));
+  }
+  for (const cell of cells) {
+    grid[cell.y - bounds.minY][cell.z - bounds.minZ][cell.x - bounds.minX] = symbols.get(cell.material)!;
+  }
+
+  return {
+    name,
+    palette,
+    rotations: [0, 1, 2, 3],
+    mirror: false,
+    variants: [{
+      origin: { x: Math.floor(width / 2), y: 0, z: Math.floor(depth / 2) },
+      layers: grid.map(rows => rows.map(row => row.join('')))
+    }]
+  };
+}
+
+/**
+ * Turns a .vox scene into a whole arena map, centered on the middle of the arena with
+ * its lowest voxels on the ground. It has no spawn points, so the game picks them.
+ */
+export function voxToVoxelMap(scene: VoxScene, options: VoxImportOptions = {}): VoxelMap {
+  const cells = placedVoxels(scene, paletteToMaterials(scene.palette, options));
+  if (cells.length === 0) {
+    throw new VoxFormatError('every voxel was left out by the material table');
+  }
+  const bounds = boundsOf(cells);
+  const offsetX = -Math.floor((bounds.minX + bounds.maxX) / 2);
+  const offsetZ = -Math.floor((bounds.minZ + bounds.maxZ) / 2);
+
+  const chunks = new Map<string, VoxelMap['chunks'][number]>();
+  for (const cell of cells) {
+    const x = cell.x + offsetX;
+    const y = cell.y - bounds.minY;
+    const z = cell.z + offsetZ;
+    const position = { x: Math.floor(x / CHUNK_SIZE), y: Math.floor(y / CHUNK_SIZE), z: Math.floor(z / CHUNK_SIZE) };
+    const chunkKey = getVoxelKey(position);
+    let chunk = chunks.get(chunkKey);
+    if (!chunk) {
+      chunk = { position, voxels: new Map() };
+      chunks.set(chunkKey, chunk);
+    }
+    chunk.voxels.set(getVoxelKey({ x: x - position.x * CHUNK_SIZE, y: y - position.y * CHUNK_SIZE, z: z - position.z * CHUNK_SIZE }), cell.material);
+  }
+
+  return { chunkSize: CHUNK_SIZE, chunks: [...chunks.values()], spawns: { player: null, enemies: [] } };
+}
+
+// Reads the content of one chunk, failing cleanly if it's shorter than it should be
+class ChunkReader {
+  private view: DataView;
+  private offset: number;
+  private end: number;
+  private id: string;
+
+  constructor(view: DataView, offset: number, end: number, id: string) {
+    this.view = view;
+    this.offset = offset;
+    this.end = end;
+    this.id = id;
+  }
+
+  int32(): number {
+    this.need(4);
+    const value = this.view.getInt32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  bytes(length: number): Uint8Array {
+    this.need(length);
+    const bytes = new Uint8Array(this.view.buffer, this.view.byteOffset + this.offset, length);
+    this.offset += length;
+    return bytes;
+  }
+
+  string(): string {
+    return String.fromCharCode(...this.bytes(this.int32()));
+  }
+
+  dict(): Map<string, string> {
+    const entries = new Map<string, string>();
+    const count = this.int32();
+    for (let i = 0; i < count; i++) {
+      const key = this.string();
+      entries.set(key, this.string());
+    }
+    return entries;
+  }
+
+  private need(length: number): void {
+    if (length < 0 || this.offset + length > this.end) {
+      throw new VoxFormatError(`${this.id} chunk is shorter than its contents`);
+    }
+  }
+}
+
+// Voxels that map to a material, with that material
+function placedVoxels(scene: VoxScene, materials: Array<VoxelMaterial | undefined>): Array<VoxelCoord & { material: VoxelMaterial }> {
+  const cells: Array<VoxelCoord & { material: VoxelMaterial }> = [];
+  for (const voxel of scene.voxels) {
+    const material = materials[voxel.colorIndex];
+    if (material !== undefined) {
+      cells.push({ x: voxel.x, y: voxel.y, z: voxel.z, material });
+    }
+  }
+  return cells;
+}
+
+function boundsOf(cells: VoxelCoord[]): { minX: number, maxX: number, minY: number, maxY: number, minZ: number, maxZ: number } {
+  const bounds = { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity, minZ: Infinity, maxZ: -Infinity };
+  for (const cell of cells) {
+    bounds.minX = Math.min(bounds.minX, cell.x);
+    bounds.maxX = Math.max(bounds.maxX, cell.x);
+    bounds.minY = Math.min(bounds.minY, cell.y);
+    bounds.maxY = Math.max(bounds.maxY, cell.y);
+    bounds.minZ = Math.min(bounds.minZ, cell.z);
+    bounds.maxZ = Math.max(bounds.maxZ, cell.z);
+  }
+  return bounds;
+}
+
+// Rotations are packed as which column holds each row's non-zero entry, and their signs
+function decodeRotation(packed: number): number[][] {
+  const first = packed & 3;
+  const second = (packed >> 2) & 3;
+  const third = 3 - first - second;
+  if (first > 2 || second > 2 || first === second) {
+    throw new VoxFormatError(`invalid rotation ${packed}`);
+  }
+  return [first, second, third].map((column, row) => {
+    const matrixRow = [0, 0, 0];
+    matrixRow[column] = (packed >> (4 + row)) & 1 ? -1 : 1;
+    return matrixRow;
+  });
+}
+
+function rotate(matrix: number[][], p: VoxelCoord): VoxelCoord {
+  return {
+    x: matrix[0][0] * p.x + matrix[0][1] * p.y + matrix[0][2] * p.z,
+    y: matrix[1][0] * p.x + matrix[1][1] * p.y + matrix[1][2] * p.z,
+    z: matrix[2][0] * p.x + matrix[2][1] * p.y + matrix[2][2] * p.z
+  };
+}
+
+function multiply(a: number[][], b: number[][]): number[][] {
+  return a.map(row => [0, 1, 2].map(column => row[0] * b[0][column] + row[1] * b[1][column] + row[2] * b[2][column]));
+}
+
+// Squared distance between two 0xRRGGBB colours, weighted towards green as the eye is
+function colorDistance(a: number, b: number): number {
+  const dr = ((a >> 16) & 255) - ((b >> 16) & 255);
+  const dg = ((a >> 8) & 255) - ((b >> 8) & 255);
+  const db = (a & 255) - (b & 255);
+  return 2 * dr * dr + 4 * dg * dg + 3 * db * db;
+}
+
+// MagicaVoxel's built-in palette, used by files without an RGBA chunk: a 6x6x6 colour
+// cube without black, then ramps of red, green, blue and grey
+function defaultPalette(): number[] {
+  const palette = [0];
+  const steps = [0xff, 0xcc, 0x99, 0x66, 0x33, 0x00];
+  for (const r of steps) {
+    for (const g of steps) {
+      for (const b of steps) {
+        if (r || g || b) {
+          palette.push((r << 16) | (g << 8) | b);
+        }
+      }
+    }
+  }
+  const ramp = [0xee, 0xdd, 0xbb, 0xaa, 0x88, 0x77, 0x55, 0x44, 0x22, 0x11];
+  for (const shift of [16, 8, 0]) {
+    ramp.forEach(value => palette.push(value << shift));
+  }
+  ramp.forEach(value => palette.push((value << 16) | (value << 8) | value));
+  return palette;
+}
+
+function readId(view: DataView, offset: number): string {
+  return String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+}
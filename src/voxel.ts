@@ -15,6 +15,7 @@ export enum VoxelMaterial {
   BRICK = 8,
   CONCRETE = 9,
   METAL = 10,
+  FENCE = 11,
 }
 
 // Properties for each voxel type
@@ -24,7 +25,14 @@ export interface VoxelProperties {
   transparent: boolean;
   solid: boolean; // Whether it has physics collision
   breakable: boolean; // Whether player can break it
+  durability: number; // Damage a voxel soaks up before it breaks
+  armor: number; // Taken off every hit, so weak blasts can't chip it away
+  crushable: boolean; // Whether tanks can drive straight through it, knocking it loose
   gravity: boolean; // Whether it falls if unsupported
+  granular: boolean; // Slides and piles up in the grid instead of breaking off as debris
+  reposeStep: number; // Deepest drop a granular voxel rests beside without sliding off
+  flammability: number; // Chance per fire tick of catching from a burning neighbor; 0 never burns
+  burnTime: number; // Seconds it burns before it's gone
   friction: number; // Physics friction
   restitution: number; // Physics bounciness
 }
@@ -36,7 +44,14 @@ export const voxelProperties: Record<VoxelMaterial, VoxelProperties> = {
     transparent: false,
     solid: true,
     breakable: true,
+    durability: 15,
+    armor: 0,
+    crushable: false,
     gravity: true,
+    granular: true,
+    reposeStep: 1,
+    flammability: 0,
+    burnTime: 0,
     friction: 0.8,
     restitution: 0.1,
   },
@@ -45,7 +60,14 @@ export const voxelProperties: Record<VoxelMaterial, VoxelProperties> = {
     transparent: false,
     solid: true,
     breakable: true,
+    durability: 15,
+    armor: 0,
+    crushable: false,
     gravity: true,
+    granular: true,
+    reposeStep: 1,
+    flammability: 0,
+    burnTime: 0,
     friction: 0.8,
     restitution: 0.1,
   },
@@ -54,7 +76,14 @@ export const voxelProperties: Record<VoxelMaterial, VoxelProperties> = {
     transparent: false,
     solid: true,
     breakable: true,
+    durability: 50,
+    armor: 5,
+    crushable: false,
     gravity: true,
+    granular: false,
+    reposeStep: 0,
+    flammability: 0,
+    burnTime: 0,
     friction: 0.9,
     restitution: 0.05,
   },
@@ -63,7 +92,14 @@ export const voxelProperties: Record<VoxelMaterial, VoxelProperties> = {
     transparent: false,
     solid: true,
     breakable: true,
+    durability: 8,
+    armor: 0,
+    crushable: false,
     gravity: true,
+    granular: true,
+    reposeStep: 0,
+    flammability: 0,
+    burnTime: 0,
     friction: 0.6,
     restitution: 0.1,
   },
@@ -72,7 +108,14 @@ export const voxelProperties: Record<VoxelMaterial, VoxelProperties> = {
     transparent: true,
     solid: false,
     breakable: false,
+    durability: 1,
+    armor: 0,
+    crushable: false,
     gravity: false,
+    granular: false,
+    reposeStep: 0,
+    flammability: 0,
+    burnTime: 0,
     friction: 0.3,
     restitution: 0,
   },
@@ -81,7 +124,14 @@ export const voxelProperties: Record<VoxelMaterial, VoxelProperties> = {
     transparent: false,
     solid: true,
     breakable: true,
+    durability: 25,
+    armor: 2,
+    crushable: false,
     gravity: true,
+    granular: false,
+    reposeStep: 0,
+    flammability: 0.1,
+    burnTime: 6,
     friction: 0.7,
     restitution: 0.2,
   },
@@ -90,7 +140,14 @@ export const voxelProperties: Record<VoxelMaterial, VoxelProperties> = {
     transparent: true,
     solid: true,
     breakable: true,
+    durability: 4,
+    armor: 0,
+    crushable: true,
     gravity: false,
+    granular: false,
+    reposeStep: 0,
+    flammability: 0.3,
+    burnTime: 2,
     friction: 0.5,
     restitution: 0.1,
   },
@@ -99,7 +156,14 @@ export const voxelProperties: Record<VoxelMaterial, VoxelProperties> = {
     transparent: false,
     solid: true,
     breakable: false,
+    durability: 1000,
+    armor: 0,
+    crushable: false,
     gravity: false,
+    granular: false,
+    reposeStep: 0,
+    flammability: 0,
+    burnTime: 0,
     friction: 0.9,
     restitution: 0.0,
   },
@@ -108,7 +172,14 @@ export const voxelProperties: Record<VoxelMaterial, VoxelProperties> = {
     transparent: false,
     solid: true,
     breakable: true,
+    durability: 35,
+    armor: 5,
+    crushable: false,
     gravity: false,
+    granular: false,
+    reposeStep: 0,
+    flammability: 0,
+    burnTime: 0,
     friction: 0.85,
     restitution: 0.05,
   },
@@ -116,8 +187,15 @@ export const voxelProperties: Record<VoxelMaterial, VoxelProperties> = {
     color: 0xc0c0c0, // Light gray
     transparent: false,
     solid: true,
-    breakable: false,
+    breakable: true,
+    durability: 80,
+    armor: 10,
+    crushable: false,
     gravity: false,
+    granular: false,
+    reposeStep: 0,
+    flammability: 0,
+    burnTime: 0,
     friction: 0.95,
     restitution: 0.02,
   },
@@ -125,11 +203,34 @@ export const voxelProperties: Record<VoxelMaterial, VoxelProperties> = {
     color: 0x808080, // Gray with metallic appearance
     transparent: false,
     solid: true,
-    breakable: false,
+    breakable: true,
+    durability: 150,
+    armor: 20,
+    crushable: false,
     gravity: false,
+    granular: false,
+    reposeStep: 0,
+    flammability: 0,
+    burnTime: 0,
     friction: 0.7,
     restitution: 0.3, // More bouncy than other materials
   },
+  [VoxelMaterial.FENCE]: {
+    color: 0xa0724a, // Weathered planks, lighter than trunks and beams
+    transparent: false,
+    solid: true,
+    breakable: true,
+    durability: 10,
+    armor: 0,
+    crushable: true,
+    gravity: true,
+    granular: false,
+    reposeStep: 0,
+    flammability: 0.15,
+    burnTime: 4,
+    friction: 0.7,
+    restitution: 0.2,
+  },
 };
 
 // Define voxel dimensions
@@ -0,0 +1,299 @@
+import { VoxelMaterial, VoxelCoord, voxelProperties, getVoxelKey } from './voxel';
+
+/**
+ * Binary voxel map format (little endian):
+ *
+ *   magic       4 bytes  "VXZM"
+ *   version     uint16
+ *   chunkSize   uint8    voxels per chunk edge
+ *   chunkCount  uint32
+ *   chunks      chunkCount x {
+ *     x, y, z   int32    chunk position in chunk coordinates
+ *     runCount  uint32
+ *     runs      runCount x { length uint16, material uint8 (EMPTY_VOXEL = no voxel) }
+ *   }
+ *   spawns      (version 2+) {
+ *     hasPlayer   uint8    1 if a player spawn follows
+ *     player      3 x int32 voxel coordinate of the player spawn
+ *     enemyCount  uint32
+ *     enemies     enemyCount x 3 x int32 voxel coordinates of enemy spawns
+ *   }
+ *
+ * Each chunk is run-length encoded over its cells in x, then z, then y order, so
+ * empty space and flat terrain layers collapse into a handful of runs.
+ */
+const MAGIC = 'VXZM';
+export const VOXEL_MAP_VERSION = 2;
+const MIN_VOXEL_MAP_VERSION = 1;
+const EMPTY_VOXEL = 255;
+const HEADER_SIZE = 11;
+const CHUNK_HEADER_SIZE = 16;
+const RUN_SIZE = 3;
+const COORD_SIZE = 12;
+
+export interface VoxelMapChunk {
+  position: { x: number, y: number, z: number }; // Chunk position in chunk coordinates
+  voxels: Map<string, VoxelMaterial>; // Local "x,y,z" keys, same as a VoxelWorld chunk
+}
+
+// Spawn points placed in the editor, in voxel coordinates
+export interface VoxelMapSpawns {
+  player: VoxelCoord | null;
+  enemies: VoxelCoord[];
+}
+
+export interface VoxelMap {
+  chunkSize: number;
+  chunks: VoxelMapChunk[];
+  spawns: VoxelMapSpawns;
+}
+
+// Thrown when a buffer is not a valid voxel map
+export class VoxelMapFormatError extends Error {
+  constructor(message: string) {
+    super(`Invalid voxel map: ${message}`);
+    this.name = 'VoxelMapFormatError';
+  }
+}
+
+// Encode a voxel map into the binary format
+export function encodeVoxelMap(map: VoxelMap): ArrayBuffer {
+  const cellCount = map.chunkSize * map.chunkSize * map.chunkSize;
+  const encodedChunks = map.chunks.map(chunk => ({
+    position: chunk.position,
+    runs: encodeRuns(chunk, map.chunkSize, cellCount)
+  }));
+
+  let byteLength = HEADER_SIZE;
+  for (const chunk of encodedChunks) {
+    byteLength += CHUNK_HEADER_SIZE + chunk.runs.length * RUN_SIZE;
+  }
+  byteLength += 1 + (map.spawns.player ? COORD_SIZE : 0) + 4 + map.spawns.enemies.length * COORD_SIZE;
+
+  const buffer = new ArrayBuffer(byteLength);
+  const view = new DataView(buffer);
+  let offset = 0;
+
+  for (let i = 0; i < MAGIC.length; i++) {
+    view.setUint8(offset++, MAGIC.charCodeAt(i));
+  }
+  view.setUint16(offset, VOXEL_MAP_VERSION, true);
+  offset += 2;
+  view.setUint8(offset++, map.chunkSize);
+  view.setUint32(offset, encodedChunks.length, true);
+  offset += 4;
+
+  for (const chunk of encodedChunks) {
+    view.setInt32(offset, chunk.position.x, true);
+    view.setInt32(offset + 4, chunk.position.y, true);
+    view.setInt32(offset + 8, chunk.position.z, true);
+    view.setUint32(offset + 12, chunk.runs.length, true);
+    offset += CHUNK_HEADER_SIZE;
+
+    for (const run of chunk.runs) {
+      view.setUint16(offset, run.length, true);
+      view.setUint8(offset + 2, run.material);
+      offset += RUN_SIZE;
+    }
+  }
+
+  view.setUint8(offset++, map.spawns.player ? 1 : 0);
+  if (map.spawns.player) {
+    offset = writeCoord(view, offset, map.spawns.player);
+  }
+  view.setUint32(offset, map.spawns.enemies.length, true);
+  offset += 4;
+  for (const enemy of map.spawns.enemies) {
+    offset = writeCoord(view, offset, enemy);
+  }
+
+  return buffer;
+}
+
+/**
+ * Decode a voxel map, throwing a VoxelMapFormatError if the data is malformed
+ * @param expectedChunkSize If given, the chunk size the map must use to be loaded into the world
+ */
+export function decodeVoxelMap(buffer: ArrayBuffer, expectedChunkSize?: number): VoxelMap {
+  const view = new DataView(buffer);
+
+  if (buffer.byteLength < HEADER_SIZE) {
+    throw new VoxelMapFormatError(`file is too short (${buffer.byteLength} bytes) to contain a header`);
+  }
+
+  let magic = '';
+  for (let i = 0; i < MAGIC.length; i++) {
+    magic += String.fromCharCode(view.getUint8(i));
+  }
+  if (magic !== MAGIC) {
+    throw new VoxelMapFormatError(`expected magic "${MAGIC}" but found "${magic}"`);
+  }
+
+  const version = view.getUint16(4, true);
+  if (version < MIN_VOXEL_MAP_VERSION || version > VOXEL_MAP_VERSION) {
+    throw new VoxelMapFormatError(`unsupported version ${version} (this build reads versions ${MIN_VOXEL_MAP_VERSION}-${VOXEL_MAP_VERSION})`);
+  }
+
+  const chunkSize = view.getUint8(6);
+  if (chunkSize === 0) {
+    throw new VoxelMapFormatError('chunk size must be greater than zero');
+  }
+  if (expectedChunkSize !== undefined && chunkSize !== expectedChunkSize) {
+    throw new VoxelMapFormatError(`chunk size ${chunkSize} does not match the world chunk size ${expectedChunkSize}`);
+  }
+  const cellCount = chunkSize * chunkSize * chunkSize;
+  const chunkCount = view.getUint32(7, true);
+
+  const chunks: VoxelMapChunk[] = [];
+  let offset = HEADER_SIZE;
+
+  for (let i = 0; i < chunkCount; i++) {
+    if (offset + CHUNK_HEADER_SIZE > buffer.byteLength) {
+      throw new VoxelMapFormatError(`unexpected end of data in header of chunk ${i}`);
+    }
+
+    const position = {
+      x: view.getInt32(offset, true),
+      y: view.getInt32(offset + 4, true),
+      z: view.getInt32(offset + 8, true)
+    };
+    const runCount = view.getUint32(offset + 12, true);
+    offset += CHUNK_HEADER_SIZE;
+
+    if (offset + runCount * RUN_SIZE > buffer.byteLength) {
+      throw new VoxelMapFormatError(`unexpected end of data in runs of chunk ${i}`);
+    }
+
+    const voxels = new Map<string, VoxelMaterial>();
+    let cell = 0;
+
+    for (let r = 0; r < runCount; r++) {
+      const length = view.getUint16(offset, true);
+      const material = view.getUint8(offset + 2);
+      offset += RUN_SIZE;
+
+      if (length === 0 || cell + length > cellCount) {
+        throw new VoxelMapFormatError(`run ${r} of chunk ${i} overflows the chunk`);
+      }
+
+      if (material !== EMPTY_VOXEL) {
+        if (voxelProperties[material as VoxelMaterial] === undefined) {
+          throw new VoxelMapFormatError(`unknown material id ${material} in chunk ${i}`);
+        }
+        for (let c = cell; c < cell + length; c++) {
+          voxels.set(cellToKey(c, chunkSize), material as VoxelMaterial);
+        }
+      }
+      cell += length;
+    }
+
+    if (cell !== cellCount) {
+      throw new VoxelMapFormatError(`chunk ${i} covers ${cell} of ${cellCount} cells`);
+    }
+
+    chunks.push({ position, voxels });
+  }
+
+  // Version 1 maps have no spawn points, so the game picks random ones
+  const spawns: VoxelMapSpawns = { player: null, enemies: [] };
+  if (version >= 2) {
+    if (offset + 1 > buffer.byteLength) {
+      throw new VoxelMapFormatError('unexpected end of data in spawn points');
+    }
+    const hasPlayer = view.getUint8(offset++) === 1;
+    const enemyCountOffset = offset + (hasPlayer ? COORD_SIZE : 0);
+    if (enemyCountOffset + 4 > buffer.byteLength) {
+      throw new VoxelMapFormatError('unexpected end of data in spawn points');
+    }
+    if (hasPlayer) {
+      spawns.player = readCoord(view, offset);
+    }
+    const enemyCount = view.getUint32(enemyCountOffset, true);
+    offset = enemyCountOffset + 4;
+    if (offset + enemyCount * COORD_SIZE > buffer.byteLength) {
+      throw new VoxelMapFormatError('unexpected end of data in enemy spawn points');
+    }
+    for (let i = 0; i < enemyCount; i++) {
+      spawns.enemies.push(readCoord(view, offset));
+      offset += COORD_SIZE;
+    }
+  }
+
+  if (offset !== buffer.byteLength) {
+    throw new VoxelMapFormatError(`${buffer.byteLength - offset} unexpected trailing bytes`);
+  }
+
+  return { chunkSize, chunks, spawns };
+}
+
+// Fetch and decode a voxel map from a URL, checking it uses the given chunk size
+export async function fetchVoxelMap(url: string, expectedChunkSize: number): Promise<VoxelMap> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load voxel map ${url}: ${response.status} ${response.statusText}`);
+  }
+  return decodeVoxelMap(await response.arrayBuffer(), expectedChunkSize);
+}
+
+// Offer an encoded map to the user as a file download
+export function downloadVoxelMap(map: VoxelMap, filename: string): void {
+  const blob = new Blob([encodeVoxelMap(map)], { type: 'application/octet-stream' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Reads the map to load from the `map` URL parameter (e.g. ?map=maps/arena.vxzm)
+ * @returns The map URL, or null if the parameter is missing
+ */
+export function getMapUrlFromUrl(): string | null {
+  const value = new URLSearchParams(window.location.search).get('map');
+  return value && value.trim() !== '' ? value : null;
+}
+
+// Run-length encode the cells of a chunk
+function encodeRuns(chunk: VoxelMapChunk, chunkSize: number, cellCount: number): Array<{ length: number, material: number }> {
+  const runs: Array<{ length: number, material: number }> = [];
+
+  for (let cell = 0; cell < cellCount; cell++) {
+    const voxel = chunk.voxels.get(cellToKey(cell, chunkSize));
+    const material = voxel === undefined ? EMPTY_VOXEL : voxel;
+    const last = runs[runs.length - 1];
+
+    // Run lengths are stored as uint16, so split very long runs
+    if (last && last.material === material && last.length < 0xffff) {
+      last.length++;
+    } else {
+      runs.push({ length: 1, material });
+    }
+  }
+
+  return runs;
+}
+
+function writeCoord(view: DataView, offset: number, coord: VoxelCoord): number {
+  view.setInt32(offset, coord.x, true);
+  view.setInt32(offset + 4, coord.y, true);
+  view.setInt32(offset + 8, coord.z, true);
+  return offset + COORD_SIZE;
+}
+
+function readCoord(view: DataView, offset: number): VoxelCoord {
+  return {
+    x: view.getInt32(offset, true),
+    y: view.getInt32(offset + 4, true),
+    z: view.getInt32(offset + 8, true)
+  };
+}
+
+// Convert a cell index (x fastest, then z, then y) to a local voxel key
+function cellToKey(cell: number, chunkSize: number): string {
+  const x = cell % chunkSize;
+  const z = Math.floor(cell / chunkSize) % chunkSize;
+  const y = Math.floor(cell / (chunkSize * chunkSize));
+  return getVoxelKey({ x, y, z });
+}
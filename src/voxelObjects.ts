@@ -1,137 +1,41 @@
 import { VoxelMaterial } from './voxel';
 import { VoxelWorld } from './voxelWorld';
+import { RandomGenerator } from './random';
+import { PrefabDefinition, parsePrefab, stampPrefab } from './prefabFormat';
+import buildingFile from './prefabs/building.json';
+import fortressFile from './prefabs/fortress.json';
+
+const buildingPrefab = parsePrefab(buildingFile);
+const fortressPrefab = parsePrefab(fortressFile);
 
 /**
- * Creates a voxel building at the specified position
+ * Creates a voxel building at the specified position, one of the walled shells with
+ * doors and windows drawn in prefabs/building.json, in brick, concrete or metal
  */
-export function createBuilding(voxelWorld: VoxelWorld, x: number, z: number): void {
-    const groundY = voxelWorld.findSurfaceHeight(x, z);
-
-    // Random building dimensions
-    const width = 3 + Math.floor(Math.random() * 4);
-    const depth = 3 + Math.floor(Math.random() * 4);
-    const height = 3 + Math.floor(Math.random() * 5);
-
-    // Choose a building material
-    const materials = [VoxelMaterial.BRICK, VoxelMaterial.CONCRETE, VoxelMaterial.METAL];
-    const material = materials[Math.floor(Math.random() * materials.length)];
-
-    // Create a list of positions that should be skipped (doorways and windows)
-    const skipPositions: Set<string> = new Set();
-
-    // Randomly determine door position
-    const doorSide = Math.floor(Math.random() * 4);
-    let doorX = -1, doorZ = -1;
-    let doorHeight = 2; // Standard door height
-
-    switch (doorSide) {
-        case 0: // North wall
-            doorX = x + Math.floor(width / 2);
-            doorZ = z;
-            break;
-        case 1: // East wall
-            doorX = x + width - 1;
-            doorZ = z + Math.floor(depth / 2);
-            break;
-        case 2: // South wall
-            doorX = x + Math.floor(width / 2);
-            doorZ = z + depth - 1;
-            break;
-        case 3: // West wall
-            doorX = x;
-            doorZ = z + Math.floor(depth / 2);
-            break;
-    }
-
-    // Add doorway positions to the skip list
-    for (let dy = 0; dy <= doorHeight; dy++) {
-        const doorPosKey = `${doorX},${groundY + dy},${doorZ}`;
-        skipPositions.add(doorPosKey);
-    }
-
-    // Generate window positions and add to skip list
-    const windowCount = Math.floor(Math.random() * 4) + 1;
-
-    for (let i = 0; i < windowCount; i++) {
-        // Choose a random wall
-        const windowSide = Math.floor(Math.random() * 4);
-        let windowX, windowZ, windowY;
-
-        // Window height is usually in the middle of the wall
-        windowY = groundY + Math.floor(height / 2);
-
-        switch (windowSide) {
-            case 0: // North
-                windowX = x + 1 + Math.floor(Math.random() * (width - 2));
-                windowZ = z;
-                break;
-            case 1: // East
-                windowX = x + width - 1;
-                windowZ = z + 1 + Math.floor(Math.random() * (depth - 2));
-                break;
-            case 2: // South
-                windowX = x + 1 + Math.floor(Math.random() * (width - 2));
-                windowZ = z + depth - 1;
-                break;
-            case 3: // West
-                windowX = x;
-                windowZ = z + 1 + Math.floor(Math.random() * (depth - 2));
-                break;
-        }
-
-        if (windowX !== undefined && windowZ !== undefined) {
-            const windowPosKey = `${windowX},${windowY},${windowZ}`;
-            skipPositions.add(windowPosKey);
-        }
-    }
-
-    // Create the building structure
-    for (let dx = 0; dx < width; dx++) {
-        for (let dz = 0; dz < depth; dz++) {
-            // Only create voxels for the outer walls
-            if (dx === 0 || dx === width - 1 || dz === 0 || dz === depth - 1) {
-                for (let dy = 0; dy < height; dy++) {
-                    // Current voxel position
-                    const voxelX = x + dx;
-                    const voxelY = groundY + dy;
-                    const voxelZ = z + dz;
-
-                    // Check if this position should be skipped (door or window)
-                    const posKey = `${voxelX},${voxelY},${voxelZ}`;
-
-                    if (!skipPositions.has(posKey)) {
-                        voxelWorld.setVoxel({
-                            x: voxelX,
-                            y: voxelY,
-                            z: voxelZ
-                        }, material);
-                    }
-                }
-            }
-        }
-    }
+export function createBuilding(voxelWorld: VoxelWorld, x: number, z: number, random: RandomGenerator): void {
+    stampPrefab(voxelWorld, buildingPrefab, x, z, random);
 }
 
 /**
  * Creates a barrier/barricade at the specified position
  */
-export function createBarrier(voxelWorld: VoxelWorld, x: number, z: number): void {
+export function createBarrier(voxelWorld: VoxelWorld, x: number, z: number, random: RandomGenerator): void {
     // Randomly choose between several barrier types
-    const barrierType = Math.floor(Math.random() * 4);
+    const barrierType = Math.floor(random() * 4);
     const groundY = voxelWorld.findSurfaceHeight(x, z);
 
     switch (barrierType) {
         case 0: // Sandbag wall
-            createSandbagWall(voxelWorld, x, groundY, z);
+            createSandbagWall(voxelWorld, x, groundY, z, random);
             break;
         case 1: // Concrete barriers
-            createConcreteBarriers(voxelWorld, x, groundY, z);
+            createConcreteBarriers(voxelWorld, x, groundY, z, random);
             break;
         case 2: // Metal barricade
-            createMetalBarricade(voxelWorld, x, groundY, z);
+            createMetalBarricade(voxelWorld, x, groundY, z, random);
             break;
         case 3: // Wooden fence
-            createWoodenFence(voxelWorld, x, groundY, z);
+            createWoodenFence(voxelWorld, x, groundY, z, random);
             break;
     }
 }
@@ -139,9 +43,9 @@ export function createBarrier(voxelWorld: VoxelWorld, x: number, z: number): voi
 /**
  * Creates a sandbag wall
  */
-export function createSandbagWall(voxelWorld: VoxelWorld, x: number, y: number, z: number): void {
-    const length = 3 + Math.floor(Math.random() * 5);
-    const direction = Math.random() > 0.5 ? 'x' : 'z';
+export function createSandbagWall(voxelWorld: VoxelWorld, x: number, y: number, z: number, random: RandomGenerator): void {
+    const length = 3 + Math.floor(random() * 5);
+    const direction = random() > 0.5 ? 'x' : 'z';
 
     for (let i = 0; i < length; i++) {
         for (let h = 0; h < 2; h++) { // 2 sandbags high
@@ -157,12 +61,12 @@ export function createSandbagWall(voxelWorld: VoxelWorld, x: number, y: number,
 /**
  * Creates concrete barriers
  */
-export function createConcreteBarriers(voxelWorld: VoxelWorld, x: number, y: number, z: number): void {
-    const length = 3 + Math.floor(Math.random() * 5);
-    const direction = Math.random() > 0.5 ? 'x' : 'z';
+export function createConcreteBarriers(voxelWorld: VoxelWorld, x: number, y: number, z: number, random: RandomGenerator): void {
+    const length = 3 + Math.floor(random() * 5);
+    const direction = random() > 0.5 ? 'x' : 'z';
 
     for (let i = 0; i < length; i++) {
-        if (Math.random() > 0.2) { // 80% chance to place a barrier (creates gaps)
+        if (random() > 0.2) { // 80% chance to place a barrier (creates gaps)
             if (direction === 'x') {
                 voxelWorld.setVoxel({ x: x + i, y: y, z }, VoxelMaterial.CONCRETE);
                 voxelWorld.setVoxel({ x: x + i, y: y + 1, z }, VoxelMaterial.CONCRETE);
@@ -177,9 +81,9 @@ export function createConcreteBarriers(voxelWorld: VoxelWorld, x: number, y: num
 /**
  * Creates a metal barricade
  */
-export function createMetalBarricade(voxelWorld: VoxelWorld, x: number, y: number, z: number): void {
-    const length = 3 + Math.floor(Math.random() * 4);
-    const direction = Math.random() > 0.5 ? 'x' : 'z';
+export function createMetalBarricade(voxelWorld: VoxelWorld, x: number, y: number, z: number, random: RandomGenerator): void {
+    const length = 3 + Math.floor(random() * 4);
+    const direction = random() > 0.5 ? 'x' : 'z';
 
     for (let i = 0; i < length; i++) {
         if (direction === 'x') {
@@ -203,170 +107,49 @@ export function createMetalBarricade(voxelWorld: VoxelWorld, x: number, y: numbe
 /**
  * Creates a wooden fence
  */
-export function createWoodenFence(voxelWorld: VoxelWorld, x: number, y: number, z: number): void {
-    const length = 4 + Math.floor(Math.random() * 6);
-    const direction = Math.random() > 0.5 ? 'x' : 'z';
+export function createWoodenFence(voxelWorld: VoxelWorld, x: number, y: number, z: number, random: RandomGenerator): void {
+    const length = 4 + Math.floor(random() * 6);
+    const direction = random() > 0.5 ? 'x' : 'z';
 
     for (let i = 0; i < length; i++) {
         if (direction === 'x') {
             // Fence posts
             if (i % 2 === 0) {
-                voxelWorld.setVoxel({ x: x + i, y: y, z }, VoxelMaterial.WOOD);
-                voxelWorld.setVoxel({ x: x + i, y: y + 1, z }, VoxelMaterial.WOOD);
+                voxelWorld.setVoxel({ x: x + i, y: y, z }, VoxelMaterial.FENCE);
+                voxelWorld.setVoxel({ x: x + i, y: y + 1, z }, VoxelMaterial.FENCE);
             }
             // Horizontal beam
-            voxelWorld.setVoxel({ x: x + i, y: y + 1, z }, VoxelMaterial.WOOD);
+            voxelWorld.setVoxel({ x: x + i, y: y + 1, z }, VoxelMaterial.FENCE);
         } else {
             // Fence posts
             if (i % 2 === 0) {
-                voxelWorld.setVoxel({ x, y: y, z: z + i }, VoxelMaterial.WOOD);
-                voxelWorld.setVoxel({ x, y: y + 1, z: z + i }, VoxelMaterial.WOOD);
+                voxelWorld.setVoxel({ x, y: y, z: z + i }, VoxelMaterial.FENCE);
+                voxelWorld.setVoxel({ x, y: y + 1, z: z + i }, VoxelMaterial.FENCE);
             }
             // Horizontal beam
-            voxelWorld.setVoxel({ x, y: y + 1, z: z + i }, VoxelMaterial.WOOD);
+            voxelWorld.setVoxel({ x, y: y + 1, z: z + i }, VoxelMaterial.FENCE);
         }
     }
 }
 
 /**
- * Creates a central fortress structure with structurally reinforced doorway
+ * Creates a central fortress structure with corner towers and a gateway on its south
+ * side, as drawn in prefabs/fortress.json
  */
-export function createFortress(voxelWorld: VoxelWorld, x: number, z: number): void {
-    const groundY = voxelWorld.findSurfaceHeight(x, z);
-    // Main fortress parameters
-    const size = 10;
-    const wallHeight = 6;
-
-    // Define the fortress material - STONE is used for all parts of the fortress
-    const fortressMaterial = VoxelMaterial.STONE;
-
-    // Create a list of positions that should be skipped (for the doorway)
-    const skipPositions: Set<string> = new Set();
-
-    // Determine fortress entrance (gate) position
-    let entranceX = x;
-    let entranceZ = z + Math.floor(size / 2) - 1;
-
-    // Add actual doorway opening positions to skip list
-    for (let dy = 0; dy <= 2; dy++) {
-        skipPositions.add(`${entranceX - 1},${groundY + dy},${entranceZ}`);
-        skipPositions.add(`${entranceX},${groundY + dy},${entranceZ}`);
-        skipPositions.add(`${entranceX + 1},${groundY + dy},${entranceZ}`);
-    }
-
-    // Create the outer walls
-    for (let dx = 0; dx < size; dx++) {
-        for (let dz = 0; dz < size; dz++) {
-            // Only place voxels on the perimeter
-            if (dx === 0 || dx === size - 1 || dz === 0 || dz === size - 1) {
-                for (let dy = 0; dy < wallHeight; dy++) {
-                    const voxelX = x + dx - Math.floor(size / 2);
-                    const voxelY = groundY + dy;
-                    const voxelZ = z + dz - Math.floor(size / 2);
-
-                    // Check if this position should be skipped (doorway)
-                    const posKey = `${voxelX},${voxelY},${voxelZ}`;
-
-                    if (!skipPositions.has(posKey)) {
-                        voxelWorld.setVoxel({
-                            x: voxelX,
-                            y: voxelY,
-                            z: voxelZ
-                        }, fortressMaterial);
-                    }
-                }
-            }
-        }
-    }
-
-    // Create towers at each corner
-    const towerHeight = wallHeight + 2;
-    const corners = [
-        { dx: 0, dz: 0 },                 // Northwest corner
-        { dx: 0, dz: size - 1 },          // Southwest corner
-        { dx: size - 1, dz: 0 },          // Northeast corner
-        { dx: size - 1, dz: size - 1 }    // Southeast corner
-    ];
-
-    corners.forEach(corner => {
-        // Calculate the tower offset from center
-        const towerOffsetX = x - Math.floor(size / 2) + (corner.dx === 0 ? -1 : size);
-        const towerOffsetZ = z - Math.floor(size / 2) + (corner.dz === 0 ? -1 : size);
-
-        // Create the 2x2 tower
-        for (let dy = 0; dy < towerHeight; dy++) {
-            for (let tx = 0; tx < 2; tx++) {
-                for (let tz = 0; tz < 2; tz++) {
-                    const towerX = towerOffsetX + (corner.dx === 0 ? tx : -tx);
-                    const towerZ = towerOffsetZ + (corner.dz === 0 ? tz : -tz);
-
-                    voxelWorld.setVoxel({
-                        x: towerX,
-                        y: groundY + dy,
-                        z: towerZ
-                    }, fortressMaterial);
-                }
-            }
-        }
-
-        // Add battlements on top of towers - properly aligned with the tower blocks
-        for (let tx = 0; tx < 2; tx++) {
-            for (let tz = 0; tz < 2; tz++) {
-                // Calculate the base coordinates of this tower
-                const towerBaseX = towerOffsetX + (corner.dx === 0 ? tx : -tx);
-                const towerBaseZ = towerOffsetZ + (corner.dz === 0 ? tz : -tz);
-
-                // Add a battlement on each side of the tower (but not in the middle)
-                // North side
-                if (tx === 0 || tx === 1) {
-                    voxelWorld.setVoxel({
-                        x: towerBaseX,
-                        y: groundY + towerHeight,
-                        z: towerBaseZ - 1
-                    }, fortressMaterial);
-                }
-
-                // South side
-                if (tx === 0 || tx === 1) {
-                    voxelWorld.setVoxel({
-                        x: towerBaseX,
-                        y: groundY + towerHeight,
-                        z: towerBaseZ + 1
-                    }, fortressMaterial);
-                }
-
-                // East side
-                if (tz === 0 || tz === 1) {
-                    voxelWorld.setVoxel({
-                        x: towerBaseX + 1,
-                        y: groundY + towerHeight,
-                        z: towerBaseZ
-                    }, fortressMaterial);
-                }
-
-                // West side
-                if (tz === 0 || tz === 1) {
-                    voxelWorld.setVoxel({
-                        x: towerBaseX - 1,
-                        y: groundY + towerHeight,
-                        z: towerBaseZ
-                    }, fortressMaterial);
-                }
-            }
-        }
-    });
+export function createFortress(voxelWorld: VoxelWorld, x: number, z: number, random: RandomGenerator): void {
+    stampPrefab(voxelWorld, fortressPrefab, x, z, random);
 }
 
 /**
  * Creates a tree at the specified position
  */
-export function createTree(voxelWorld: VoxelWorld, x: number, z: number): void {
+export function createTree(voxelWorld: VoxelWorld, x: number, z: number, random: RandomGenerator): void {
     // Find proper ground height
     const groundY = voxelWorld.findSurfaceHeight(x, z);
 
     // Randomize tree height
-    const trunkHeight = 4 + Math.floor(Math.random() * 3);
-    const leafRadius = 2 + Math.floor(Math.random() * 2);
+    const trunkHeight = 4 + Math.floor(random() * 3);
+    const leafRadius = 2 + Math.floor(random() * 2);
 
     // Create trunk
     for (let dy = 0; dy < trunkHeight; dy++) {
@@ -406,12 +189,12 @@ export function createTree(voxelWorld: VoxelWorld, x: number, z: number): void {
 /**
  * Creates a pine tree (conical) at the specified position
  */
-export function createPineTree(voxelWorld: VoxelWorld, x: number, z: number): void {
+export function createPineTree(voxelWorld: VoxelWorld, x: number, z: number, random: RandomGenerator): void {
     // Find proper ground height
     const groundY = voxelWorld.findSurfaceHeight(x, z);
 
     // Randomize tree height
-    const trunkHeight = 5 + Math.floor(Math.random() * 4);
+    const trunkHeight = 5 + Math.floor(random() * 4);
     const baseLeafRadius = 3;
 
     // Create trunk
@@ -457,12 +240,12 @@ export function createPineTree(voxelWorld: VoxelWorld, x: number, z: number): vo
 /**
  * Creates a bush at the specified position
  */
-export function createBush(voxelWorld: VoxelWorld, x: number, z: number): void {
+export function createBush(voxelWorld: VoxelWorld, x: number, z: number, random: RandomGenerator): void {
     // Find proper ground height
     const groundY = voxelWorld.findSurfaceHeight(x, z);
 
     // Random bush size
-    const radius = 1 + Math.floor(Math.random() * 2);
+    const radius = 1 + Math.floor(random() * 2);
 
     // Create a roughly spherical bush
     for (let dx = -radius; dx <= radius; dx++) {
@@ -472,7 +255,7 @@ export function createBush(voxelWorld: VoxelWorld, x: number, z: number): void {
                 const distanceSquared = dx * dx + dy * dy + dz * dz;
                 if (distanceSquared <= radius * radius) {
                     // Random gaps to make it look less uniform
-                    if (Math.random() > 0.3) {
+                    if (random() > 0.3) {
                         voxelWorld.setVoxel({
                             x: x + dx,
                             y: groundY + dy,
@@ -488,12 +271,12 @@ export function createBush(voxelWorld: VoxelWorld, x: number, z: number): void {
 /**
  * Creates a rock formation at the specified position
  */
-export function createRockFormation(voxelWorld: VoxelWorld, x: number, z: number): void {
+export function createRockFormation(voxelWorld: VoxelWorld, x: number, z: number, random: RandomGenerator): void {
     // Find proper ground height
     const groundY = voxelWorld.findSurfaceHeight(x, z);
 
     // Random rock size
-    const size = 1 + Math.floor(Math.random() * 3);
+    const size = 1 + Math.floor(random() * 3);
 
     // Create a roughly rounded rock formation
     for (let dx = -size; dx <= size; dx++) {
@@ -503,7 +286,7 @@ export function createRockFormation(voxelWorld: VoxelWorld, x: number, z: number
                 const distanceSquared = dx * dx + dy * dy + dz * dz;
                 if (distanceSquared <= size * size + 1) {
                     // Add some randomness to make it look more natural
-                    if (Math.random() > 0.2) {
+                    if (random() > 0.2) {
                         voxelWorld.setVoxel({
                             x: x + dx,
                             y: groundY + dy,
@@ -519,12 +302,12 @@ export function createRockFormation(voxelWorld: VoxelWorld, x: number, z: number
 /**
  * Creates a cactus at the specified position
  */
-export function createCactus(voxelWorld: VoxelWorld, x: number, z: number): void {
+export function createCactus(voxelWorld: VoxelWorld, x: number, z: number, random: RandomGenerator): void {
     // Find proper ground height
     const groundY = voxelWorld.findSurfaceHeight(x, z);
 
     // Create the main stem
-    const height = 3 + Math.floor(Math.random() * 3);
+    const height = 3 + Math.floor(random() * 3);
 
     for (let dy = 0; dy < height; dy++) {
         voxelWorld.setVoxel({
@@ -535,9 +318,9 @@ export function createCactus(voxelWorld: VoxelWorld, x: number, z: number): void
     }
 
     // Maybe add a branch or two
-    if (Math.random() > 0.4) {
-        const branchHeight = 1 + Math.floor(Math.random() * (height - 2));
-        const branchDirection = Math.floor(Math.random() * 4);
+    if (random() > 0.4) {
+        const branchHeight = 1 + Math.floor(random() * (height - 2));
+        const branchDirection = Math.floor(random() * 4);
         let branchX = x;
         let branchZ = z;
 
@@ -562,12 +345,15 @@ export function createCactus(voxelWorld: VoxelWorld, x: number, z: number): void
 /**
  * Creates a small pond of water at the specified position
  */
-export function createPond(voxelWorld: VoxelWorld, x: number, z: number): void {
+export function createPond(voxelWorld: VoxelWorld, x: number, z: number, random: RandomGenerator): void {
     // Find proper ground height
     const groundY = voxelWorld.findSurfaceHeight(x, z);
 
     // Create a small pond with random shape
-    const radius = 2 + Math.floor(Math.random() * 3);
+    const radius = 2 + Math.floor(random() * 3);
+
+    // Dig the water into the terrain; on bare ground it sits on the ground plane inside a sand bank
+    const waterY = Math.max(groundY - 1, 0);
 
     // Dig out the pond and fill with water
     for (let dx = -radius; dx <= radius; dx++) {
@@ -584,7 +370,7 @@ export function createPond(voxelWorld: VoxelWorld, x: number, z: number): void {
 
                 voxelWorld.setVoxel({
                     x: x + dx,
-                    y: groundY - 1,
+                    y: waterY,
                     z: z + dz
                 }, VoxelMaterial.WATER);
 
@@ -599,4 +385,437 @@ export function createPond(voxelWorld: VoxelWorld, x: number, z: number): void {
             }
         }
     }
-}
\ No newline at end of file
+}
+/**
+ * Creates a long, low sand dune. Its slopes are kept no steeper than sand's angle of
+ * repose so it stands until shelled, then slumps in the granular simulation.
+ */
+export function createSandDune(voxelWorld: VoxelWorld, x: number, z: number, random: RandomGenerator): void {
+    const length = 7 + Math.floor(random() * 6);
+    const width = 4 + Math.floor(random() * 3);
+    const height = 2 + Math.floor(random() * 2);
+    const angle = random() * Math.PI;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    for (let dx = -length; dx <= length; dx++) {
+        for (let dz = -length; dz <= length; dz++) {
+            // Distance across the dune's ellipse, rotated to its heading
+            const along = (dx * cos + dz * sin) / length;
+            const across = (dz * cos - dx * sin) / width;
+            const columnHeight = Math.round(height * (1 - along * along - across * across));
+            if (columnHeight <= 0) continue;
+
+            const groundY = voxelWorld.findSurfaceHeight(x + dx, z + dz);
+            for (let dy = 0; dy < columnHeight; dy++) {
+                voxelWorld.setVoxel({
+                    x: x + dx,
+                    y: groundY + dy,
+                    z: z + dz
+                }, VoxelMaterial.SAND);
+            }
+        }
+    }
+}
+
+/**
+ * Creates a landmark block of nine buildings in a 3x3 grid
+ */
+export function createCityBlock(voxelWorld: VoxelWorld, x: number, z: number, random: RandomGenerator): void {
+    for (let dx = -1; dx <= 1; dx++) {
+        for (let dz = -1; dz <= 1; dz++) {
+            createBuilding(voxelWorld, x + dx * 5, z + dz * 5, random);
+        }
+    }
+}
+
+// Directions a structure can face: +z, +x, -z, -x
+const FACINGS: Array<[number, number]> = [[0, 1], [1, 0], [0, -1], [-1, 0]];
+
+// Turn an offset to the right of and in front of a structure into a world offset for the way it faces
+function facingOffset(facing: number, right: number, forward: number): { dx: number, dz: number } {
+    const [fx, fz] = FACINGS[facing % FACINGS.length];
+    return { dx: fz * right + fx * forward, dz: -fx * right + fz * forward };
+}
+
+// Extend a column down from just below y until it meets ground, filling any water on the way,
+// so structures placed on uneven ground or over ponds stand on something
+function buildFoundation(voxelWorld: VoxelWorld, x: number, y: number, z: number, material: VoxelMaterial): void {
+    for (let dy = y - 1; dy >= 0; dy--) {
+        const existing = voxelWorld.getVoxel({ x, y: dy, z });
+        if (existing !== undefined && existing !== VoxelMaterial.WATER) break;
+        voxelWorld.setVoxel({ x, y: dy, z }, material);
+    }
+}
+
+/**
+ * Options for createBridge; anything left out is picked at random
+ */
+export interface BridgeOptions {
+    length?: number;        // Deck length between the ramps, in voxels
+    width?: number;         // Drivable width between the curbs
+    span?: number;          // Distance between piers
+    direction?: 'x' | 'z';
+    material?: VoxelMaterial;
+}
+
+/**
+ * Creates a bridge centered on the given position, one voxel above the ground or water
+ * there, on stone piers every span with stepped ramps down at both ends. Shooting out
+ * the piers drops the spans between them.
+ */
+export function createBridge(voxelWorld: VoxelWorld, x: number, z: number, random: RandomGenerator, options: BridgeOptions = {}): void {
+    const length = options.length ?? 12 + Math.floor(random() * 3) * 4;
+    const width = options.width ?? 3;
+    const span = options.span ?? 4;
+    const direction = options.direction ?? (random() > 0.5 ? 'x' : 'z');
+    const material = options.material ?? VoxelMaterial.CONCRETE;
+    const deckY = voxelWorld.findSurfaceHeight(x, z) + 1;
+
+    const at = (along: number, across: number) => direction === 'x'
+        ? { x: x + along, z: z + across }
+        : { x: x + across, z: z + along };
+    const start = -Math.floor(length / 2);
+    const end = start + length - 1;
+    const firstLane = -Math.floor(width / 2);
+    const lastLane = firstLane + width - 1;
+
+    for (let along = start; along <= end; along++) {
+        for (let across = firstLane - 1; across <= lastLane + 1; across++) {
+            const cell = at(along, across);
+            voxelWorld.setVoxel({ x: cell.x, y: deckY, z: cell.z }, material);
+
+            // Curbs along both edges
+            if (across < firstLane || across > lastLane) {
+                voxelWorld.setVoxel({ x: cell.x, y: deckY + 1, z: cell.z }, material);
+            }
+        }
+
+        // Piers under both edges at every span and at the ends
+        if ((along - start) % span === 0 || along === end) {
+            for (const across of [firstLane - 1, lastLane + 1]) {
+                const cell = at(along, across);
+                buildFoundation(voxelWorld, cell.x, deckY, cell.z, VoxelMaterial.STONE);
+            }
+        }
+    }
+
+    // Ramps down to the ground at each end, one voxel per step so tanks can climb them
+    for (const [from, step] of [[start, -1], [end, 1]]) {
+        for (let k = 1; k <= deckY; k++) {
+            const along = from + step * k;
+            const rampY = deckY - k;
+            let reachedGround = true;
+
+            for (let across = firstLane - 1; across <= lastLane + 1; across++) {
+                const cell = at(along, across);
+                if (voxelWorld.findSurfaceHeight(cell.x, cell.z) <= rampY) {
+                    reachedGround = false;
+                    voxelWorld.setVoxel({ x: cell.x, y: rampY, z: cell.z }, material);
+                    buildFoundation(voxelWorld, cell.x, rampY, cell.z, material);
+                }
+            }
+            if (reachedGround) break;
+        }
+    }
+}
+
+/**
+ * Options for createBunker; anything left out is picked at random
+ */
+export interface BunkerOptions {
+    width?: number;   // Along the front, in voxels
+    depth?: number;   // Front to back
+    height?: number;  // Floor to the top of the roof
+    facing?: number;  // Which way the firing slits look: 0 = +z, 1 = +x, 2 = -z, 3 = -x
+}
+
+/**
+ * Creates a hollow concrete bunker with firing slits along its front, buried under an
+ * earth mound that slopes down to a low berm in front of the slits. The mound never
+ * drops more than a voxel at a time, so the soil holds until it's shelled. Placed on a
+ * hillside, the bunker is dug into the slope.
+ */
+export function createBunker(voxelWorld: VoxelWorld, x: number, z: number, random: RandomGenerator, options: BunkerOptions = {}): void {
+    const width = options.width ?? 5 + Math.floor(random() * 3);
+    const depth = options.depth ?? 4 + Math.floor(random() * 2);
+    const height = options.height ?? 3;
+    const facing = options.facing ?? Math.floor(random() * FACINGS.length);
+    const groundY = voxelWorld.findSurfaceHeight(x, z);
+
+    // Cells are numbered across the front, and back from it
+    const at = (across: number, back: number) => {
+        const { dx, dz } = facingOffset(facing, across - Math.floor(width / 2), Math.floor(depth / 2) - back);
+        return { x: x + dx, z: z + dz };
+    };
+
+    // Earth mound around the sides and back
+    const bank = height + 1;
+    for (let back = -bank; back < depth + bank; back++) {
+        for (let across = -bank; across < width + bank; across++) {
+            if (across >= 0 && across < width && back >= 0 && back < depth) continue;
+
+            // One voxel lower per voxel out from the bunker, and kept low in front of the slits
+            const distance = Math.max(-across, across - (width - 1), -back, back - (depth - 1));
+            const moundHeight = Math.min(bank - distance, Math.max(1, back + 2));
+            if (moundHeight <= 0) continue;
+
+            const cell = at(across, back);
+            for (let dy = 0; dy < moundHeight; dy++) {
+                voxelWorld.setVoxel({ x: cell.x, y: groundY + dy, z: cell.z }, VoxelMaterial.DIRT);
+            }
+            buildFoundation(voxelWorld, cell.x, groundY, cell.z, VoxelMaterial.DIRT);
+        }
+    }
+
+    // The bunker itself
+    for (let back = 0; back < depth; back++) {
+        for (let across = 0; across < width; across++) {
+            const cell = at(across, back);
+            const isWall = across === 0 || across === width - 1 || back === 0 || back === depth - 1;
+
+            for (let dy = 0; dy < height; dy++) {
+                const isRoof = dy === height - 1;
+                const isSlit = back === 0 && dy === 1 && across % 2 === 1 && across < width - 1;
+                const solid = isRoof || (isWall && !isSlit);
+                // Hollow out the inside, even where it cuts into a hill
+                voxelWorld.setVoxel({ x: cell.x, y: groundY + dy, z: cell.z }, solid ? VoxelMaterial.CONCRETE : undefined);
+            }
+            if (isWall) {
+                buildFoundation(voxelWorld, cell.x, groundY, cell.z, VoxelMaterial.CONCRETE);
+            }
+
+            // Earth over the roof, stopping short of the front so the slits stay clear
+            if (back > 0) {
+                voxelWorld.setVoxel({ x: cell.x, y: groundY + height, z: cell.z }, VoxelMaterial.DIRT);
+            }
+        }
+    }
+}
+
+/**
+ * Options for createTrench; anything left out is picked at random
+ */
+export interface TrenchOptions {
+    length?: number;
+    width?: number;        // Width of the channel
+    depth?: number;        // How far it's dug down, where there's ground to dig into
+    direction?: 'x' | 'z';
+    zigzag?: boolean;      // Jog the line sideways every few voxels so one shell can't rake along it
+}
+
+/**
+ * Creates a trench line: a channel dug into the ground, lined with a timber revetment
+ * that stands a voxel proud as a parapet, with the spoil banked up behind it. On the
+ * flat ground plane there's nothing to dig, so it's just the parapet and bank.
+ */
+export function createTrench(voxelWorld: VoxelWorld, x: number, z: number, random: RandomGenerator, options: TrenchOptions = {}): void {
+    const length = options.length ?? 12 + Math.floor(random() * 9);
+    const width = options.width ?? 2;
+    const depth = options.depth ?? 2;
+    const direction = options.direction ?? (random() > 0.5 ? 'x' : 'z');
+    const zigzag = options.zigzag ?? true;
+
+    const at = (along: number, across: number) => direction === 'x'
+        ? { x: x + along, z: z + across }
+        : { x: x + across, z: z + along };
+
+    // Lay out the channel, then the revetment around it, then the bank around that
+    const channel = new Map<string, { x: number, z: number }>();
+    for (let along = 0; along < length; along++) {
+        const jog = zigzag && Math.floor(along / 6) % 2 === 1 ? width - 1 : 0;
+        for (let across = 0; across < width; across++) {
+            const cell = at(along, across + jog);
+            channel.set(`${cell.x},${cell.z}`, cell);
+        }
+    }
+    const ringAround = (inner: Map<string, { x: number, z: number }>, exclude: Map<string, { x: number, z: number }>) => {
+        const ring = new Map<string, { x: number, z: number }>();
+        for (const cell of inner.values()) {
+            for (let dx = -1; dx <= 1; dx++) {
+                for (let dz = -1; dz <= 1; dz++) {
+                    const key = `${cell.x + dx},${cell.z + dz}`;
+                    if (!inner.has(key) && !exclude.has(key)) {
+                        ring.set(key, { x: cell.x + dx, z: cell.z + dz });
+                    }
+                }
+            }
+        }
+        return ring;
+    };
+    const revetment = ringAround(channel, new Map());
+    const bank = ringAround(revetment, channel);
+
+    for (const cell of channel.values()) {
+        const surface = voxelWorld.findSurfaceHeight(cell.x, cell.z);
+        for (let y = Math.max(surface - depth, 0); y < surface; y++) {
+            voxelWorld.setVoxel({ x: cell.x, y, z: cell.z }, undefined);
+        }
+    }
+    for (const cell of revetment.values()) {
+        const surface = voxelWorld.findSurfaceHeight(cell.x, cell.z);
+        for (let y = Math.max(surface - depth, 0); y <= surface; y++) {
+            voxelWorld.setVoxel({ x: cell.x, y, z: cell.z }, VoxelMaterial.WOOD);
+        }
+    }
+    for (const cell of bank.values()) {
+        voxelWorld.setVoxel({ x: cell.x, y: voxelWorld.findSurfaceHeight(cell.x, cell.z), z: cell.z }, VoxelMaterial.DIRT);
+    }
+}
+
+/**
+ * Creates an anti-tank hedgehog: a steel post with arms out along both axes at its foot
+ * and its top. Too heavy to crush, but it can be shot apart.
+ * @param size Length of each arm; the post is twice this plus one tall
+ */
+export function createHedgehog(voxelWorld: VoxelWorld, x: number, z: number, random: RandomGenerator, size: number = 1 + Math.floor(random() * 2)): void {
+    const groundY = voxelWorld.findSurfaceHeight(x, z);
+    const topY = groundY + size * 2;
+
+    for (let y = groundY; y <= topY; y++) {
+        voxelWorld.setVoxel({ x, y, z }, VoxelMaterial.METAL);
+    }
+    buildFoundation(voxelWorld, x, groundY, z, VoxelMaterial.METAL);
+
+    for (let d = 1; d <= size; d++) {
+        for (const [dx, dz] of FACINGS) {
+            voxelWorld.setVoxel({ x: x + dx * d, y: groundY, z: z + dz * d }, VoxelMaterial.METAL);
+            buildFoundation(voxelWorld, x + dx * d, groundY, z + dz * d, VoxelMaterial.METAL);
+            voxelWorld.setVoxel({ x: x + dx * d, y: topY, z: z + dz * d }, VoxelMaterial.METAL);
+        }
+    }
+}
+
+/**
+ * Options for createTankTraps; anything left out is picked at random
+ */
+export interface TankTrapOptions {
+    count?: number;
+    spacing?: number;      // Distance between hedgehogs; the default leaves gaps too narrow for a tank
+    direction?: 'x' | 'z';
+}
+
+/**
+ * Creates a line of anti-tank hedgehogs
+ */
+export function createTankTraps(voxelWorld: VoxelWorld, x: number, z: number, random: RandomGenerator, options: TankTrapOptions = {}): void {
+    const count = options.count ?? 3 + Math.floor(random() * 4);
+    const spacing = options.spacing ?? 4;
+    const direction = options.direction ?? (random() > 0.5 ? 'x' : 'z');
+
+    for (let i = 0; i < count; i++) {
+        const offset = i * spacing;
+        if (direction === 'x') {
+            createHedgehog(voxelWorld, x + offset, z, random, 1);
+        } else {
+            createHedgehog(voxelWorld, x, z + offset, random, 1);
+        }
+    }
+}
+
+/**
+ * Options for createWatchtower; anything left out is picked at random
+ */
+export interface WatchtowerOptions {
+    height?: number;  // Ground to the platform, in voxels
+    size?: number;    // Width of the platform; the legs stand at its corners
+}
+
+/**
+ * Creates a wooden watchtower: four braced legs holding a railed platform under a roof.
+ * Its legs can be shot, burned or rammed out from under it.
+ */
+export function createWatchtower(voxelWorld: VoxelWorld, x: number, z: number, random: RandomGenerator, options: WatchtowerOptions = {}): void {
+    const height = options.height ?? 5 + Math.floor(random() * 3);
+    const size = options.size ?? 3;
+    const groundY = voxelWorld.findSurfaceHeight(x, z);
+    const platformY = groundY + height;
+    const min = -Math.floor(size / 2);
+    const max = min + size - 1;
+
+    for (let dx = min; dx <= max; dx++) {
+        for (let dz = min; dz <= max; dz++) {
+            const isCorner = (dx === min || dx === max) && (dz === min || dz === max);
+            const isEdge = dx === min || dx === max || dz === min || dz === max;
+
+            // Legs, braced halfway up
+            if (isCorner) {
+                for (let y = groundY; y < platformY; y++) {
+                    voxelWorld.setVoxel({ x: x + dx, y, z: z + dz }, VoxelMaterial.WOOD);
+                }
+                buildFoundation(voxelWorld, x + dx, groundY, z + dz, VoxelMaterial.WOOD);
+            } else if (isEdge) {
+                voxelWorld.setVoxel({ x: x + dx, y: groundY + Math.floor(height / 2), z: z + dz }, VoxelMaterial.WOOD);
+            }
+
+            // Platform and railing
+            voxelWorld.setVoxel({ x: x + dx, y: platformY, z: z + dz }, VoxelMaterial.WOOD);
+            if (isEdge) {
+                voxelWorld.setVoxel({ x: x + dx, y: platformY + 1, z: z + dz }, VoxelMaterial.WOOD);
+            }
+
+            // Corner posts hold up the roof
+            if (isCorner) {
+                voxelWorld.setVoxel({ x: x + dx, y: platformY + 2, z: z + dz }, VoxelMaterial.WOOD);
+            }
+            voxelWorld.setVoxel({ x: x + dx, y: platformY + 3, z: z + dz }, VoxelMaterial.WOOD);
+        }
+    }
+}
+
+/**
+ * A voxel object that can be stamped into the world by name, e.g. from the level editor
+ */
+export interface VoxelPrefab {
+    name: string;
+    create: (voxelWorld: VoxelWorld, x: number, z: number, random: RandomGenerator) => void;
+}
+
+// Wrap a barrier type that takes an explicit ground height so it can be placed like other prefabs
+function onSurface(create: (voxelWorld: VoxelWorld, x: number, y: number, z: number, random: RandomGenerator) => void): VoxelPrefab['create'] {
+    return (voxelWorld, x, z, random) => create(voxelWorld, x, voxelWorld.findSurfaceHeight(x, z), z, random);
+}
+
+/**
+ * All prefabs in the order they are offered by the level editor
+ */
+export const voxelPrefabs: VoxelPrefab[] = [
+    { name: 'Building', create: createBuilding },
+    { name: 'City Block', create: createCityBlock },
+    { name: 'Fortress', create: createFortress },
+    { name: 'Barrier', create: createBarrier },
+    { name: 'Sandbag Wall', create: onSurface(createSandbagWall) },
+    { name: 'Concrete Barriers', create: onSurface(createConcreteBarriers) },
+    { name: 'Metal Barricade', create: onSurface(createMetalBarricade) },
+    { name: 'Wooden Fence', create: onSurface(createWoodenFence) },
+    { name: 'Tree', create: createTree },
+    { name: 'Pine Tree', create: createPineTree },
+    { name: 'Bush', create: createBush },
+    { name: 'Rock Formation', create: createRockFormation },
+    { name: 'Cactus', create: createCactus },
+    { name: 'Pond', create: createPond },
+    { name: 'Sand Dune', create: createSandDune },
+    { name: 'Bridge', create: createBridge },
+    { name: 'Bunker', create: createBunker },
+    { name: 'Trench', create: createTrench },
+    { name: 'Hedgehog', create: createHedgehog },
+    { name: 'Tank Traps', create: createTankTraps },
+    { name: 'Watchtower', create: createWatchtower },
+];
+
+/**
+ * Offers a prefab loaded from a file to arenas and the editor, replacing any built-in
+ * prefab of the same name
+ */
+export function registerPrefab(prefab: PrefabDefinition): void {
+    const entry: VoxelPrefab = {
+        name: prefab.name,
+        create: (voxelWorld, x, z, random) => stampPrefab(voxelWorld, prefab, x, z, random)
+    };
+    const index = voxelPrefabs.findIndex(existing => existing.name === prefab.name);
+    if (index >= 0) {
+        voxelPrefabs[index] = entry;
+    } else {
+        voxelPrefabs.push(entry);
+    }
+}
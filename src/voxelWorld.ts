@@ -2,7 +2,6 @@ import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d';
 import { GameObject } from './types';
 import { PhysicsWorld } from './physics';
-import { PlayState } from './playState';
 import {
   VoxelMaterial,
   VoxelCoord,
@@ -12,13 +11,24 @@ import {
   getVoxelKey,
   parseVoxelKey,
   getVoxelNeighbors,
-  worldToVoxel,
-  voxelToWorld
+  worldToVoxel
 } from './voxel';
 import { GameConfig } from './config';
+import { VoxelMap, VoxelMapSpawns } from './voxelMapFormat';
+import { VoxelMeshingMode, greedyMeshChunk } from './chunkMesher';
+import { WaterSimulation } from './waterSimulation';
+import { GranularSimulation } from './granularSimulation';
+import { FireSimulation } from './fireSimulation';
+import { DebrisPool } from './debrisPool';
 
 // Chunk size (16x16x16 voxels per chunk, like Minecraft)
-const CHUNK_SIZE = 16;
+export const CHUNK_SIZE = 16;
+
+// Number of increasingly cracked looks a damaged voxel goes through before it breaks
+export const CRACK_STAGES = 3;
+
+// Structures bigger than this are treated as anchored rather than dropped
+const MAX_ISLAND_SIZE = 2048;
 
 export interface PhysicsChunk {
   minX: number;
@@ -33,26 +43,69 @@ export interface PhysicsChunk {
 export interface Chunk {
   position: { x: number, y: number, z: number }; // Chunk position in chunk coordinates
   voxels: Map<string, VoxelMaterial>; // Map of voxel positions to materials
+  damage: Map<string, number>; // Damage built up on voxels that haven't broken yet, keyed like voxels
   mesh: THREE.Group; // Mesh containing all rendered voxels
   dirty: boolean; // Whether the chunk needs to be re-rendered
   physicsChunks: Map<string, GameObject>; // Physics objects for consolidated voxels
   needsPhysicsUpdate: boolean; // Flag to indicate physics needs updating
+  triangleCount: number; // Triangles in the current chunk mesh
+}
+
+// Chunk mesh rebuild timings, for comparing meshing modes
+export interface VoxelMeshStats {
+  mode: VoxelMeshingMode;
+  chunksBuilt: number;
+  totalBuildMs: number;
+  lastBuildMs: number;
+  maxBuildMs: number;
+  triangles: number;
 }
 
+// Owner of a voxel world (the game or the editor) that manages voxels breaking loose as debris
+export interface VoxelWorldHost {
+  addDebris(debris: GameObject): void;
+  removeDebris(debris: GameObject): void;
+}
+
+// Called after a voxel changes, or with null when the whole world is replaced
+export type VoxelChangeListener = (voxelPos: VoxelCoord | null) => void;
+
 export class VoxelWorld {
-  private state: PlayState;
   private scene: THREE.Scene;
   private chunks: Map<string, Chunk> = new Map();
   private physicsWorld: PhysicsWorld;
   private config: GameConfig;
   private materialMeshes: THREE.MeshStandardMaterial[] = [];
   private geometry: THREE.BoxGeometry;
-
-  constructor(playState: PlayState, scene: THREE.Scene, physicsWorld: PhysicsWorld, config: GameConfig) {
-    this.state = playState;
+  private meshStats: VoxelMeshStats;
+  private rebuildQueue: Set<Chunk> = new Set(); // Chunks waiting for a mesh or physics rebuild
+  private changeListeners: VoxelChangeListener[] = [];
+  private crackMaterials: THREE.MeshBasicMaterial[] | null = null; // One per crack stage, created on first use
+  private water: WaterSimulation;
+  private granular: GranularSimulation;
+  private fire: FireSimulation;
+  private debris: DebrisPool;
+  private pendingRemovals: VoxelCoord[] = []; // Removed since the last integrity pass
+  private integrityTimer: ReturnType<typeof setTimeout> | null = null;
+  private detachingIsland = false;
+
+  constructor(host: VoxelWorldHost, scene: THREE.Scene, physicsWorld: PhysicsWorld, config: GameConfig) {
     this.scene = scene;
     this.physicsWorld = physicsWorld;
     this.config = config;
+    this.water = new WaterSimulation(this, config.waterCellsPerTick);
+    this.granular = new GranularSimulation(this, config.granularCellsPerTick);
+    this.fire = new FireSimulation(this, scene, config.fireCellsPerTick);
+    this.debris = new DebrisPool(host, this, physicsWorld, scene, config);
+
+    this.meshStats = {
+      mode: config.voxelMeshingMode,
+      chunksBuilt: 0,
+      totalBuildMs: 0,
+      lastBuildMs: 0,
+      maxBuildMs: 0,
+      triangles: 0
+    };
 
     // Create geometry for voxels
     this.geometry = new THREE.BoxGeometry(VOXEL_SIZE, VOXEL_SIZE, VOXEL_SIZE);
@@ -300,10 +353,12 @@ export class VoxelWorld {
       this.chunks.set(key, {
         position,
         voxels: new Map<string, VoxelMaterial>(),
+        damage: new Map<string, number>(),
         mesh: chunkMesh,
         dirty: false,
         physicsChunks: new Map<string, GameObject>(),
-        needsPhysicsUpdate: false
+        needsPhysicsUpdate: false,
+        triangleCount: 0
       });
     }
 
@@ -319,6 +374,82 @@ export class VoxelWorld {
     return this.getOrCreateChunk({ x: chunkX, y: chunkY, z: chunkZ });
   }
 
+  // Get the chunk that contains the voxel position without creating it if it doesn't exist
+  private findChunkForVoxel(voxelPos: VoxelCoord): Chunk | undefined {
+    const chunkX = Math.floor(voxelPos.x / CHUNK_SIZE);
+    const chunkY = Math.floor(voxelPos.y / CHUNK_SIZE);
+    const chunkZ = Math.floor(voxelPos.z / CHUNK_SIZE);
+
+    return this.chunks.get(`${chunkX},${chunkY},${chunkZ}`);
+  }
+
+  // Remove every chunk along with its meshes and physics bodies
+  clear(): void {
+    for (const chunk of this.chunks.values()) {
+      for (const gameObj of chunk.physicsChunks.values()) {
+        this.physicsWorld.removeBody(gameObj);
+      }
+      this.clearChunkMesh(chunk);
+      this.scene.remove(chunk.mesh);
+    }
+    this.chunks.clear();
+    this.rebuildQueue.clear();
+    this.pendingRemovals = [];
+    this.notifyChange(null);
+  }
+
+  // Stop any pending work and free the fire's flames once the owning state exits
+  dispose(): void {
+    if (this.integrityTimer !== null) {
+      clearTimeout(this.integrityTimer);
+      this.integrityTimer = null;
+    }
+    this.pendingRemovals = [];
+    this.fire.dispose();
+  }
+
+  // Listen for terrain changes, e.g. to keep derived data such as navigation in sync
+  addVoxelChangeListener(listener: VoxelChangeListener): void {
+    this.changeListeners.push(listener);
+  }
+
+  removeVoxelChangeListener(listener: VoxelChangeListener): void {
+    this.changeListeners = this.changeListeners.filter(l => l !== listener);
+  }
+
+  private notifyChange(voxelPos: VoxelCoord | null): void {
+    for (const listener of this.changeListeners) {
+      listener(voxelPos);
+    }
+  }
+
+  // Snapshot all non-empty chunks so they can be saved with encodeVoxelMap
+  exportMap(spawns: VoxelMapSpawns = { player: null, enemies: [] }): VoxelMap {
+    const chunks: VoxelMap['chunks'] = [];
+    for (const chunk of this.chunks.values()) {
+      if (chunk.voxels.size === 0) continue;
+      chunks.push({
+        position: { ...chunk.position },
+        voxels: new Map(chunk.voxels)
+      });
+    }
+    return { chunkSize: CHUNK_SIZE, chunks, spawns };
+  }
+
+  // Replace the whole world with the contents of a loaded map, which must already have been checked to use CHUNK_SIZE
+  importMap(map: VoxelMap): void {
+    this.clear();
+    for (const mapChunk of map.chunks) {
+      // Copy voxels in directly rather than through setVoxel so no support checks run
+      const chunk = this.getOrCreateChunk({ ...mapChunk.position });
+      chunk.voxels = new Map(mapChunk.voxels);
+      chunk.dirty = true;
+      chunk.needsPhysicsUpdate = true;
+      this.rebuildQueue.add(chunk);
+    }
+    this.notifyChange(null);
+  }
+
   // Convert voxel position to local chunk position
   voxelToChunkLocal(voxelPos: VoxelCoord): VoxelCoord {
     return {
@@ -337,6 +468,9 @@ export class VoxelWorld {
     // Check if we're removing a voxel
     const isRemoving = material === undefined && chunk.voxels.has(key);
 
+    // A new or removed voxel starts over undamaged
+    chunk.damage.delete(key);
+
     // If material is undefined, remove the voxel
     if (material === undefined) {
       chunk.voxels.delete(key);
@@ -349,6 +483,7 @@ export class VoxelWorld {
 
     // Mark physics needs updating
     chunk.needsPhysicsUpdate = true;
+    this.rebuildQueue.add(chunk);
 
     // Mark neighboring chunks as dirty if the voxel is on the edge
     if (localPos.x === 0 || localPos.x === CHUNK_SIZE - 1 ||
@@ -357,41 +492,151 @@ export class VoxelWorld {
       this.markNeighborChunksDirty(voxelPos);
     }
 
-    // Check for unsupported voxels if we removed a voxel
-    if (isRemoving) {
-      setTimeout(() => {
-        this.checkUnsupportedVoxels(voxelPos, 3);
-      }, 50);
+    this.notifyChange(voxelPos);
+
+    // Anything this was holding up may now be cut off
+    if (isRemoving && !this.detachingIsland) {
+      this.scheduleIntegrityCheck(voxelPos);
     }
   }
 
-  // Get a voxel from the world
+  // Get a voxel from the world (reading never creates chunks)
   getVoxel(voxelPos: VoxelCoord): VoxelMaterial | undefined {
-    const chunk = this.getChunkForVoxel(voxelPos);
+    const chunk = this.findChunkForVoxel(voxelPos);
+    if (!chunk) return undefined;
     const localPos = this.voxelToChunkLocal(voxelPos);
     const key = getVoxelKey(localPos);
 
     return chunk.voxels.get(key);
   }
 
+  /**
+   * Deal damage to a voxel. Each hit is reduced by the material's armor, and what gets
+   * through builds up until it reaches the material's durability and the voxel breaks.
+   * @returns true if the voxel broke
+   */
+  damageVoxel(voxelPos: VoxelCoord, amount: number): boolean {
+    const material = this.getVoxel(voxelPos);
+    if (material === undefined) return false;
+
+    const properties = voxelProperties[material];
+    const effectiveDamage = amount - properties.armor;
+    if (!properties.breakable || effectiveDamage <= 0) return false;
+
+    const chunk = this.getChunkForVoxel(voxelPos);
+    const key = getVoxelKey(this.voxelToChunkLocal(voxelPos));
+    const previousDamage = chunk.damage.get(key) ?? 0;
+    const damage = previousDamage + effectiveDamage;
+
+    if (damage >= properties.durability) {
+      this.setVoxel(voxelPos, undefined);
+      return true;
+    }
+
+    chunk.damage.set(key, damage);
+
+    // Only re-render when the voxel looks more cracked than before
+    if (getCrackStage(damage, properties.durability) !== getCrackStage(previousDamage, properties.durability)) {
+      chunk.dirty = true;
+      this.rebuildQueue.add(chunk);
+    }
+    return false;
+  }
+
+  /**
+   * Knock a crushable voxel loose as debris, e.g. when a tank drives through it
+   * @param impulse Push given to the debris
+   * @returns true if the voxel was crushed
+   */
+  crushVoxel(voxelPos: VoxelCoord, impulse?: THREE.Vector3): boolean {
+    const material = this.getVoxel(voxelPos);
+    if (material === undefined || !voxelProperties[material].crushable) return false;
+
+    this.setVoxel(voxelPos, undefined);
+    this.debris.spawn([{ pos: voxelPos, material }], impulse);
+    return true;
+  }
+
+  // Set a flammable voxel alight; returns false if it can't burn or already is
+  igniteVoxel(voxelPos: VoxelCoord): boolean {
+    return this.fire.ignite(voxelPos);
+  }
+
+  // Whether anything is burning within the given number of voxels
+  isBurningNear(voxelPos: VoxelCoord, radius: number): boolean {
+    return this.fire.isBurningNear(voxelPos, radius);
+  }
+
+  // How close a voxel is to breaking, from 0 (undamaged) to 1
+  getVoxelDamage(voxelPos: VoxelCoord): number {
+    const material = this.getVoxel(voxelPos);
+    if (material === undefined) return 0;
+
+    const chunk = this.getChunkForVoxel(voxelPos);
+    const damage = chunk.damage.get(getVoxelKey(this.voxelToChunkLocal(voxelPos))) ?? 0;
+    return Math.min(1, damage / voxelProperties[material].durability);
+  }
+
   // Mark neighboring chunks as dirty for re-rendering
   markNeighborChunksDirty(voxelPos: VoxelCoord): void {
     const neighbors = getVoxelNeighbors(voxelPos);
 
     for (const neighbor of neighbors) {
-      const chunk = this.getChunkForVoxel(neighbor);
-      chunk.dirty = true;
+      // Chunks that don't exist yet have nothing to re-render
+      const chunk = this.findChunkForVoxel(neighbor);
+      if (chunk) {
+        chunk.dirty = true;
+        this.rebuildQueue.add(chunk);
+      }
     }
   }
 
   // Render a chunk
   renderChunk(chunk: Chunk): void {
     // console.log("Rendering chunk at", chunk.position);
-    // Remove existing mesh children
-    while (chunk.mesh.children.length > 0) {
-      chunk.mesh.remove(chunk.mesh.children[0]);
+    const startTime = performance.now();
+    this.clearChunkMesh(chunk);
+
+    if (this.config.voxelMeshingMode === 'instanced') {
+      this.renderChunkInstanced(chunk);
+    } else {
+      this.renderChunkGreedy(chunk);
+    }
+    this.renderChunkCracks(chunk);
+
+    // Record rebuild timing so meshing modes can be compared on the same seed
+    const buildMs = performance.now() - startTime;
+    this.meshStats.chunksBuilt++;
+    this.meshStats.totalBuildMs += buildMs;
+    this.meshStats.lastBuildMs = buildMs;
+    this.meshStats.maxBuildMs = Math.max(this.meshStats.maxBuildMs, buildMs);
+
+    // Update physics if needed
+    if (chunk.needsPhysicsUpdate) {
+      this.updateChunkPhysics(chunk);
     }
 
+    chunk.dirty = false;
+  }
+
+  // Mesh the chunk as merged quads of exposed faces, one mesh per material
+  private renderChunkGreedy(chunk: Chunk): void {
+    const origin: VoxelCoord = {
+      x: chunk.position.x * CHUNK_SIZE,
+      y: chunk.position.y * CHUNK_SIZE,
+      z: chunk.position.z * CHUNK_SIZE
+    };
+    const meshes = greedyMeshChunk(chunk.voxels, origin, CHUNK_SIZE, pos => this.getVoxel(pos));
+
+    chunk.triangleCount = 0;
+    for (const { material, geometry } of meshes) {
+      chunk.mesh.add(new THREE.Mesh(geometry, this.materialMeshes[material]));
+      chunk.triangleCount += geometry.index!.count / 3;
+    }
+  }
+
+  // Draw one box instance per voxel with at least one exposed face
+  private renderChunkInstanced(chunk: Chunk): void {
     // Group voxels by material for better rendering performance
     const voxelsByMaterial: Map<VoxelMaterial, VoxelCoord[]> = new Map();
 
@@ -434,12 +679,104 @@ export class VoxelWorld {
       chunk.mesh.add(instancedMesh);
     }
 
-    // Update physics if needed
-    if (chunk.needsPhysicsUpdate) {
-      this.updateChunkPhysics(chunk);
+    chunk.triangleCount = 0;
+    for (const positions of voxelsByMaterial.values()) {
+      chunk.triangleCount += positions.length * 12;
     }
+  }
 
-    chunk.dirty = false;
+  // Overlay cracks on damaged voxels, one instanced mesh per crack stage
+  private renderChunkCracks(chunk: Chunk): void {
+    const voxelsByStage: VoxelCoord[][] = [];
+    for (const [keyStr, damage] of chunk.damage.entries()) {
+      const material = chunk.voxels.get(keyStr);
+      if (material === undefined) continue;
+
+      const stage = getCrackStage(damage, voxelProperties[material].durability);
+      if (stage === 0) continue;
+      if (!voxelsByStage[stage]) {
+        voxelsByStage[stage] = [];
+      }
+      voxelsByStage[stage].push(parseVoxelKey(keyStr));
+    }
+    if (voxelsByStage.length === 0) return;
+
+    const crackMaterials = this.getCrackMaterials();
+    const matrix = new THREE.Matrix4();
+    voxelsByStage.forEach((positions, stage) => {
+      const instancedMesh = new THREE.InstancedMesh(this.geometry, crackMaterials[stage - 1], positions.length);
+      positions.forEach((localPos, i) => {
+        // Slightly larger than the voxel so the cracks sit on its faces
+        matrix.makeScale(1.01, 1.01, 1.01).setPosition(
+          localPos.x * VOXEL_SIZE,
+          localPos.y * VOXEL_SIZE,
+          localPos.z * VOXEL_SIZE
+        );
+        instancedMesh.setMatrixAt(i, matrix);
+      });
+      chunk.mesh.add(instancedMesh);
+      chunk.triangleCount += positions.length * 12;
+    });
+  }
+
+  // Transparent crack textures, with more cracks at each stage
+  private getCrackMaterials(): THREE.MeshBasicMaterial[] {
+    if (this.crackMaterials) return this.crackMaterials;
+
+    this.crackMaterials = [];
+    for (let stage = 1; stage <= CRACK_STAGES; stage++) {
+      const canvas = document.createElement('canvas');
+      canvas.width = 32;
+      canvas.height = 32;
+      const context = canvas.getContext('2d')!;
+      context.strokeStyle = 'rgba(20, 20, 20, 0.9)';
+      context.lineWidth = 1;
+
+      // Jagged lines wandering out from near the middle of the face
+      for (let i = 0; i < stage * 3; i++) {
+        let x = 10 + Math.random() * 12;
+        let y = 10 + Math.random() * 12;
+        context.beginPath();
+        context.moveTo(x, y);
+        for (let segment = 0; segment < 3 + stage; segment++) {
+          x += (Math.random() - 0.5) * 12;
+          y += (Math.random() - 0.5) * 12;
+          context.lineTo(x, y);
+        }
+        context.stroke();
+      }
+
+      const texture = new THREE.CanvasTexture(canvas);
+      texture.magFilter = THREE.NearestFilter;
+      this.crackMaterials.push(new THREE.MeshBasicMaterial({
+        map: texture,
+        transparent: true,
+        depthWrite: false
+      }));
+    }
+    return this.crackMaterials;
+  }
+
+  // Remove and free the chunk's current meshes
+  private clearChunkMesh(chunk: Chunk): void {
+    while (chunk.mesh.children.length > 0) {
+      const child = chunk.mesh.children[0];
+      chunk.mesh.remove(child);
+      if (child instanceof THREE.InstancedMesh) {
+        child.dispose();
+      } else if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+      }
+    }
+  }
+
+  // Get chunk rebuild timings and the current triangle count
+  getMeshStats(): VoxelMeshStats {
+    let triangles = 0;
+    for (const chunk of this.chunks.values()) {
+      triangles += chunk.triangleCount;
+    }
+    return { ...this.meshStats, triangles };
   }
 
   // Check if a voxel needs rendering (has at least one exposed face)
@@ -467,18 +804,74 @@ export class VoxelWorld {
     return false;
   }
 
-  // Update function to be called every frame
-  update(deltaTime: number): void {
-    for (const chunk of this.chunks.values()) {
-      if (chunk.dirty) {
-        this.renderChunk(chunk);
+  /**
+   * Update function to be called every frame. Rebuilds queued chunks nearest to the
+   * focus point first and stops once the frame's rebuild budget is used up, leaving
+   * the rest for later frames.
+   * @param focus Usually the camera position; chunks are rebuilt in queue order without it
+   * @param simulate Whether water, sand and fire move; the editor turns this off so what's painted stays put
+   */
+  update(deltaTime: number, focus?: THREE.Vector3, simulate: boolean = true): void {
+    // Let water, sand and fire change the world first so the chunks they touch are rebuilt this frame
+    if (simulate) {
+      this.water.update(deltaTime);
+      this.granular.update(deltaTime);
+      this.fire.update(deltaTime);
+    }
+    this.debris.update();
+
+    if (this.rebuildQueue.size === 0) return;
+
+    const queue = [...this.rebuildQueue];
+    if (focus) {
+      const distances = new Map<Chunk, number>();
+      for (const chunk of queue) {
+        distances.set(chunk, this.getChunkCenter(chunk).distanceToSquared(focus));
       }
-      if (chunk.needsPhysicsUpdate) {
-        this.updateChunkPhysics(chunk);
+      queue.sort((a, b) => distances.get(a)! - distances.get(b)!);
+    }
+
+    const startTime = performance.now();
+    for (const chunk of queue) {
+      // Always rebuild at least one chunk so the queue keeps draining
+      if (chunk !== queue[0] && performance.now() - startTime >= this.config.voxelRebuildBudgetMs) {
+        break;
       }
+      this.rebuildChunk(chunk);
+    }
+  }
+
+  // Rebuild every queued chunk right away, e.g. once after generating or loading a world
+  flushRebuilds(): void {
+    for (const chunk of [...this.rebuildQueue]) {
+      this.rebuildChunk(chunk);
+    }
+  }
+
+  // Let the water and sand of a freshly built world rest until something disturbs them; nothing is burning yet
+  sleepSimulations(): void {
+    this.water.sleep();
+    this.granular.sleep();
+    this.fire.sleep();
+  }
+
+  private rebuildChunk(chunk: Chunk): void {
+    if (chunk.dirty) {
+      this.renderChunk(chunk);
+    }
+    if (chunk.needsPhysicsUpdate) {
+      this.updateChunkPhysics(chunk);
     }
-    // Apply gravity to voxels if needed
-    // (Optional) Simulate falling sand, water flow, etc.
+    this.rebuildQueue.delete(chunk);
+  }
+
+  private getChunkCenter(chunk: Chunk): THREE.Vector3 {
+    const halfChunk = (CHUNK_SIZE / 2) * VOXEL_SIZE;
+    return new THREE.Vector3(
+      chunk.position.x * CHUNK_SIZE * VOXEL_SIZE + halfChunk,
+      chunk.position.y * CHUNK_SIZE * VOXEL_SIZE + halfChunk,
+      chunk.position.z * CHUNK_SIZE * VOXEL_SIZE + halfChunk
+    );
   }
 
   // Raycast to find the voxel at the given ray
@@ -599,359 +992,115 @@ export class VoxelWorld {
     return 0; // Default ground level if no terrain found
   }
 
-  // Check for unsupported voxels in a region
-  private checkUnsupportedVoxels(center: VoxelCoord, radius: number): void {
-    // Track voxels that need to be processed for physics
-    const voxelsToCheck: Array<{ pos: VoxelCoord, material: VoxelMaterial }> = [];
-    const processedVoxels = new Set<string>();
-
-    // First, let's quickly check if the center voxel is a tree trunk (wood)
-    const isTrunkRemoval = this.getAdjacentWoodCount(center) > 0;
-
-    // Increase radius for tree structures to ensure we catch the entire tree
-    const checkRadius = isTrunkRemoval ? 10 : radius;
-
-    // First pass: collect all wood blocks that might need checking
-    for (let x = -checkRadius; x <= checkRadius; x++) {
-      for (let y = 0; y <= checkRadius * 2; y++) { // Check more upward (trees are tall)
-        for (let z = -checkRadius; z <= checkRadius; z++) {
-          const checkPos = {
-            x: center.x + x,
-            y: center.y + y,
-            z: center.z + z
-          };
-
-          // Skip if we've already processed this voxel
-          const key = getVoxelKey(checkPos);
-          if (processedVoxels.has(key)) continue;
+  // Queue a removed voxel's neighbors for the next integrity pass
+  private scheduleIntegrityCheck(removedPos: VoxelCoord): void {
+    this.pendingRemovals.push(removedPos);
+    if (this.integrityTimer !== null) return;
 
-          // Get the voxel material
-          const material = this.getVoxel(checkPos);
-          if (material === undefined) continue;
-
-          // First collect all wood blocks that might be unsupported
-          if (material === VoxelMaterial.WOOD) {
-            voxelsToCheck.push({ pos: checkPos, material });
-            processedVoxels.add(key);
-          }
-        }
-      }
-    }
-
-    // Process all wood blocks first
-    for (const { pos, material } of voxelsToCheck) {
-      // Check if this wood block has a support chain to the ground
-      if (!this.hasWoodSupportChain(pos)) {
-        // No support chain - convert to a physical object
-        this.setVoxel(pos, undefined);
-        this.state.addDebris(this.createDynamicVoxelBody(pos, material));
-      }
-    }
-
-    // Clear the arrays for the second pass
-    voxelsToCheck.length = 0;
-    processedVoxels.clear();
-
-    // Second pass: collect all non-wood blocks (leaves, etc.) that might need checking
-    for (let x = -checkRadius; x <= checkRadius; x++) {
-      for (let y = 0; y <= checkRadius * 2; y++) {
-        for (let z = -checkRadius; z <= checkRadius; z++) {
-          const checkPos = {
-            x: center.x + x,
-            y: center.y + y,
-            z: center.z + z
-          };
-
-          // Skip if we've already processed this voxel
-          const key = getVoxelKey(checkPos);
-          if (processedVoxels.has(key)) continue;
-
-          // Get the voxel material
-          const material = this.getVoxel(checkPos);
-          if (material === undefined) continue;
-
-          // Skip wood, we've already processed those
-          if (material === VoxelMaterial.WOOD) continue;
-
-          // Only care about voxels that can be affected by gravity
-          if (material !== VoxelMaterial.LEAVES) {
-            if (!voxelProperties[material].gravity) continue;
-          }
-
-          voxelsToCheck.push({ pos: checkPos, material });
-          processedVoxels.add(key);
-        }
-      }
-    }
-
-    // Process all non-wood blocks now that wood blocks have been processed
-    for (const { pos, material } of voxelsToCheck) {
-      if (!this.hasSupport(pos)) {
-        // Voxel has no support - convert to a physical object
-        this.setVoxel(pos, undefined);
-        this.state.addDebris(this.createDynamicVoxelBody(pos, material));
-      }
-    }
+    this.integrityTimer = setTimeout(() => {
+      this.integrityTimer = null;
+      this.checkStructuralIntegrity();
+    }, 50);
   }
 
-  // Count the number of adjacent wood blocks to determine if we're breaking a tree trunk
-  private getAdjacentWoodCount(pos: VoxelCoord): number {
-    let count = 0;
-    for (const neighbor of getVoxelNeighbors(pos)) {
-      if (this.getVoxel(neighbor) === VoxelMaterial.WOOD) {
-        count++;
+  /**
+   * Find everything cut off from the ground by the voxels removed since the last pass
+   * and drop each disconnected island as a single rigid body, so a building whose
+   * walls are shot out comes down in chunks rather than hanging in the air.
+   */
+  private checkStructuralIntegrity(): void {
+    const removed = this.pendingRemovals;
+    this.pendingRemovals = [];
+
+    // Shared between fills so each voxel is only explored once per pass
+    const anchored = new Set<string>();
+    const detached = new Set<string>();
+
+    for (const removedPos of removed) {
+      for (const neighbor of getVoxelNeighbors(removedPos)) {
+        const key = getVoxelKey(neighbor);
+        if (anchored.has(key) || detached.has(key)) continue;
+
+        const material = this.getVoxel(neighbor);
+        if (material === undefined || !isStructural(material)) continue;
+
+        const island = this.findIsland(neighbor, anchored);
+        if (island) {
+          island.forEach(pos => detached.add(getVoxelKey(pos)));
+          this.detachIsland(island);
+        }
       }
     }
-
-    return count;
   }
 
-  // Check if a wood block has a continuous chain of support to the ground
-  private hasWoodSupportChain(startPos: VoxelCoord): boolean {
-    // Track visited positions to avoid loops
+  /**
+   * Flood fill the structure connected to a voxel, heading down first. A structure is
+   * anchored if it reaches the ground, rests on sand or soil, or is too big to be worth
+   * dropping. Every voxel visited by a fill that ends up anchored is added to the set.
+   * @returns The island's voxels, or null if it's anchored
+   */
+  private findIsland(start: VoxelCoord, anchored: Set<string>): VoxelCoord[] | null {
     const visited = new Set<string>();
-    const queue: VoxelCoord[] = [startPos];
+    const island: VoxelCoord[] = [];
+    const stack: VoxelCoord[] = [start];
 
-    while (queue.length > 0) {
-      const currentPos = queue.shift()!;
-      const key = getVoxelKey(currentPos);
+    const anchor = (): null => {
+      visited.forEach(key => anchored.add(key));
+      return null;
+    };
 
+    while (stack.length > 0) {
+      const pos = stack.pop()!;
+      const key = getVoxelKey(pos);
       if (visited.has(key)) continue;
       visited.add(key);
 
-      // We reached ground level - the chain is supported
-      if (currentPos.y === 0) {
-        return true;
+      if (anchored.has(key) || pos.y <= 0 || visited.size > MAX_ISLAND_SIZE) {
+        return anchor();
       }
+      island.push(pos);
 
-      // Check below first (vertical support is primary)
-      const belowPos = { x: currentPos.x, y: currentPos.y - 1, z: currentPos.z };
-      const belowMaterial = this.getVoxel(belowPos);
-
-      // If there's a solid block below, it's potentially supported
-      if (belowMaterial !== undefined) {
-        const belowKey = getVoxelKey(belowPos);
-        if (!visited.has(belowKey)) {
-          queue.push(belowPos);
-          continue; // Continue with BFS
-        }
+      // Loose material under a structure holds it up; the granular simulation moves it instead
+      const below = this.getVoxel({ x: pos.x, y: pos.y - 1, z: pos.z });
+      if (below !== undefined && voxelProperties[below].granular) {
+        return anchor();
       }
 
-      // No support directly below, check for horizontal supports for wood only
-      if (this.getVoxel(currentPos) === VoxelMaterial.WOOD) {
-        // Check all four horizontal directions for wood supports
-        const horizontalNeighbors = [
-          { x: currentPos.x + 1, y: currentPos.y, z: currentPos.z },
-          { x: currentPos.x - 1, y: currentPos.y, z: currentPos.z },
-          { x: currentPos.x, y: currentPos.y, z: currentPos.z + 1 },
-          { x: currentPos.x, y: currentPos.y, z: currentPos.z - 1 }
-        ];
-
-        for (const neighbor of horizontalNeighbors) {
-          const neighborMaterial = this.getVoxel(neighbor);
-          if (neighborMaterial === VoxelMaterial.WOOD) {
-            const neighborKey = getVoxelKey(neighbor);
-            if (!visited.has(neighborKey)) {
-              queue.push(neighbor);
-            }
-          }
-        }
-      }
-    }
-
-    // No path to ground or other support found
-    return false;
-  }
-
-  // Check if a voxel has support underneath or to the sides
-  private hasSupport(voxelPos: VoxelCoord): boolean {
-    // Check if there's a voxel directly underneath
-    const belowPos: VoxelCoord = { x: voxelPos.x, y: voxelPos.y - 1, z: voxelPos.z };
-    const belowVoxel = this.getVoxel(belowPos);
-
-    // If there's a voxel below, it's supported
-    if (belowVoxel !== undefined) {
-      return true;
-    }
-
-    // Ground level always counts as supported
-    if (voxelPos.y === 0) {
-      return true;
-    }
-
-    // For wood blocks in trees, we need to check if they're part of the tree trunk
-    // If they're not directly on top of another wood block, they should fall
-    const material = this.getVoxel(voxelPos);
-
-    if (material === VoxelMaterial.WOOD) {
-      // For wood blocks, they need to have support directly underneath
-      // Otherwise, this is a disconnected wood block (like the top of a tree)
-      return false;
-    }
-
-    // For leaves, check horizontal connections
-    if (material === VoxelMaterial.LEAVES) {
-      // Check all six neighboring positions
-      const neighbors = getVoxelNeighbors(voxelPos);
-
+      // The stack is last in, first out, so pushing the voxel below last explores it first
+      const neighbors = getVoxelNeighbors(pos).sort((a, b) => b.y - a.y);
       for (const neighbor of neighbors) {
-        const neighborMaterial = this.getVoxel(neighbor);
-
-        // If there's a wood block next to this leaf, consider it supported
-        if (neighborMaterial === VoxelMaterial.WOOD) {
-          return true;
-        }
-
-        // Check if it's connected to another leaf that might be supported
-        if (neighborMaterial === VoxelMaterial.LEAVES) {
-          // Use a breadth-first search to find if any connected leaf has support
-          if (this.hasLeafClusterSupport(voxelPos)) {
-            return true;
-          }
+        const material = this.getVoxel(neighbor);
+        if (material !== undefined && isStructural(material) && !visited.has(getVoxelKey(neighbor))) {
+          stack.push(neighbor);
         }
       }
     }
 
-    return false;
+    return island;
   }
 
-  // Use breadth-first search to find if a cluster of leaves has any support
-  private hasLeafClusterSupport(startPos: VoxelCoord): boolean {
-    const visited = new Set<string>();
-    const queue: VoxelCoord[] = [startPos];
-
-    // Limit search to prevent infinite loops for very large trees
-    const maxSearchSize = 100;
-
-    while (queue.length > 0 && visited.size < maxSearchSize) {
-      const current = queue.shift()!;
-      const key = getVoxelKey(current);
-
-      if (visited.has(key)) continue;
-      visited.add(key);
-
-      // Check if this leaf has support from below
-      const belowPos: VoxelCoord = { x: current.x, y: current.y - 1, z: current.z };
-      const belowMaterial = this.getVoxel(belowPos);
-
-      // If there's something directly below, check if it's supporting
-      if (belowMaterial !== undefined) {
-        // If it's a wood block, check if it has a support chain to the ground
-        if (belowMaterial === VoxelMaterial.WOOD) {
-          if (this.hasWoodSupportChain(belowPos)) {
-            return true; // Found support from a supported wood block
-          }
-        }
-        // If it's another material (like ground), it's supporting
-        else if (belowMaterial !== VoxelMaterial.LEAVES) {
-          return true;
-        }
-      }
-
-      // Add all neighboring leaves/wood to the queue
-      const neighbors = getVoxelNeighbors(current);
-      for (const neighbor of neighbors) {
-        const neighborMaterial = this.getVoxel(neighbor);
-
-        // If there's a wood block, check if it's actually supported
-        if (neighborMaterial === VoxelMaterial.WOOD) {
-          if (this.hasWoodSupportChain(neighbor)) {
-            return true; // Found support from a supported wood block
-          }
-        }
+  // Take an island's voxels out of the grid and drop them as one body
+  private detachIsland(island: VoxelCoord[]): void {
+    const voxels = island.map(pos => ({ pos, material: this.getVoxel(pos)! }));
 
-        // If it's another leaf, add to the queue to check later
-        if (neighborMaterial === VoxelMaterial.LEAVES) {
-          const neighborKey = getVoxelKey(neighbor);
-          if (!visited.has(neighborKey)) {
-            queue.push(neighbor);
-          }
-        }
-      }
+    // Removing them can't cut anything else off, since all they touched is in the island
+    this.detachingIsland = true;
+    for (const { pos } of voxels) {
+      this.setVoxel(pos, undefined);
     }
+    this.detachingIsland = false;
 
-    // No support found in the cluster
-    return false;
+    this.debris.spawn(voxels);
   }
+}
 
-  // Create a dynamic physics body for a voxel
-  private createDynamicVoxelBody(voxelPos: VoxelCoord, material: VoxelMaterial): GameObject {
-    const worldPos = voxelToWorld(voxelPos);
-
-    // Create a dynamic rigid body
-    const rigidBodyDesc = RAPIER.RigidBodyDesc.dynamic()
-      .setTranslation(worldPos.x, worldPos.y, worldPos.z);
-
-    const body = this.physicsWorld.world.createRigidBody(rigidBodyDesc);
-
-    // Create the collider
-    const colliderDesc = RAPIER.ColliderDesc.cuboid(
-      VOXEL_SIZE / 2,
-      VOXEL_SIZE / 2,
-      VOXEL_SIZE / 2
-    );
-
-    // Set physical properties based on the material
-    const voxelProps = voxelProperties[material];
-    colliderDesc.setFriction(voxelProps.friction);
-    colliderDesc.setRestitution(voxelProps.restitution);
-    colliderDesc.setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
-    this.physicsWorld.world.createCollider(colliderDesc, body);
-
-    // Create a simple mesh for the falling voxel
-    const geometry = new THREE.BoxGeometry(VOXEL_SIZE, VOXEL_SIZE, VOXEL_SIZE);
-    const meshMaterial = new THREE.MeshStandardMaterial({
-      color: voxelProps.color,
-      transparent: voxelProps.transparent,
-      opacity: voxelProps.transparent ? 0.8 : 1.0,
-      roughness: 0.7,
-      metalness: 0.1
-    });
-
-    const mesh = new THREE.Mesh(geometry, meshMaterial);
-    mesh.position.copy(worldPos);
-
-    let fadeOut = false;
-    let fadeStartTime: number;
-    const fadeOutDuration = 1000; // 1 second fade
-    const initialOpacity = meshMaterial.opacity;
-
-    // Create the game object
-    const gameObj: GameObject = {
-      mesh,
-      body,
-      update: () => {
-        // Remove if fallen too far (cleanup)
-        if (body.translation().y < -20) {
-          this.state.removeDebris(gameObj);
-          return false; // Signal that this object should be removed
-        }
-
-        if (fadeOut) {
-          // Fade out and remove the voxel after a delay
-          const elapsed = Date.now() - fadeStartTime;
-          const progress = Math.min(elapsed / fadeOutDuration, 1);
-
-          // Update opacity
-          meshMaterial.opacity = initialOpacity * (1 - progress);
-
-          // When fade completes
-          if (progress >= 1) {
-            this.state.removeDebris(gameObj);
-            return false;
-          }
-        }
-        return true;
-      }
-    };
-
-    if (Math.random() < 0.9) {
-      setTimeout(() => {
-        fadeOut = true;
-        fadeStartTime = Date.now();
-      }, Math.random() * 1000 + 1000);
-    }
+// Whether a material holds structures together; water and loose sand or soil don't
+function isStructural(material: VoxelMaterial): boolean {
+  const properties = voxelProperties[material];
+  return properties.solid && !properties.granular;
+}
 
-    return gameObj;
-  }
+// Which crack stage (0 = none) a voxel with this much damage shows
+function getCrackStage(damage: number, durability: number): number {
+  return Math.min(CRACK_STAGES, Math.floor(damage / durability * (CRACK_STAGES + 1)));
 }
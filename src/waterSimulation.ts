@@ -0,0 +1,122 @@
+import { VoxelWorld } from './voxelWorld';
+import { VoxelCoord, VoxelMaterial, getVoxelKey, getVoxelNeighbors } from './voxel';
+import { CellularSimulation } from './cellularSimulation';
+
+const MAX_MASS = 1;         // A completely full cell
+const VISIBLE_MASS = 0.5;   // Cells holding at least this much show a water voxel
+const MIN_FLOW = 0.01;      // Smaller flows are skipped so settled water goes to sleep
+const TICK_INTERVAL = 0.05; // Seconds between simulation steps
+
+/**
+ * Cellular water flow. Every cell holds a mass of water between 0 and 1; water falls
+ * into the cell below first and then evens out with its horizontal neighbors, so a
+ * breached pond drains into the opening and settles once the levels even out.
+ *
+ * A cell is drawn as a WATER voxel while it holds at least VISIBLE_MASS. Water voxels
+ * placed by generation or the editor count as full without being tracked here. The
+ * editor doesn't step the simulation, so painted water holds its shape until play.
+ */
+export class WaterSimulation extends CellularSimulation {
+  private mass: Map<string, number> = new Map(); // Partly filled cells; untracked water voxels are full
+  private writing = false; // Set while we change voxels ourselves so we don't wake on our own edits
+
+  constructor(voxelWorld: VoxelWorld, cellsPerTick: number) {
+    super(voxelWorld, cellsPerTick, TICK_INTERVAL);
+  }
+
+  protected handleVoxelChange(voxelPos: VoxelCoord | null): void {
+    // The whole world was replaced; start over with whatever water it has
+    if (voxelPos === null) {
+      this.mass.clear();
+      super.handleVoxelChange(voxelPos);
+      return;
+    }
+    if (this.writing) return;
+
+    // Whatever was placed here, full water or a solid voxel, replaces a partial cell
+    this.mass.delete(getVoxelKey(voxelPos));
+    super.handleVoxelChange(voxelPos);
+  }
+
+  protected canStep(voxelPos: VoxelCoord): boolean {
+    return this.getMass(voxelPos) > 0;
+  }
+
+  protected step(voxelPos: VoxelCoord): void {
+    let remaining = this.getMass(voxelPos);
+    if (remaining <= 0) return;
+
+    // Fall into the cell below
+    const below = { x: voxelPos.x, y: voxelPos.y - 1, z: voxelPos.z };
+    if (this.canHoldWater(below)) {
+      const flow = Math.min(remaining, MAX_MASS - this.getMass(below));
+      if (flow > MIN_FLOW) {
+        remaining -= flow;
+        this.transfer(voxelPos, below, remaining, flow);
+      }
+    }
+
+    // Even out with lower neighbors, a quarter of the difference each
+    const sides = [
+      { x: voxelPos.x + 1, y: voxelPos.y, z: voxelPos.z },
+      { x: voxelPos.x - 1, y: voxelPos.y, z: voxelPos.z },
+      { x: voxelPos.x, y: voxelPos.y, z: voxelPos.z + 1 },
+      { x: voxelPos.x, y: voxelPos.y, z: voxelPos.z - 1 },
+    ];
+    for (const side of sides) {
+      if (remaining <= 0) break;
+      if (!this.canHoldWater(side)) continue;
+
+      const flow = (remaining - this.getMass(side)) / 4;
+      if (flow > MIN_FLOW) {
+        remaining -= flow;
+        this.transfer(voxelPos, side, remaining, flow);
+      }
+    }
+  }
+
+  // Move water between cells and wake everything that may flow as a result
+  private transfer(from: VoxelCoord, to: VoxelCoord, fromMass: number, amount: number): void {
+    this.setMass(from, fromMass);
+    this.setMass(to, this.getMass(to) + amount);
+
+    this.wake(to);
+    this.wake(from);
+    for (const neighbor of getVoxelNeighbors(from)) {
+      this.wake(neighbor);
+    }
+  }
+
+  private getMass(voxelPos: VoxelCoord): number {
+    const mass = this.mass.get(getVoxelKey(voxelPos));
+    if (mass !== undefined) return mass;
+    return this.voxelWorld.getVoxel(voxelPos) === VoxelMaterial.WATER ? MAX_MASS : 0;
+  }
+
+  private setMass(voxelPos: VoxelCoord, mass: number): void {
+    const key = getVoxelKey(voxelPos);
+    if (mass <= 0 || mass >= MAX_MASS) {
+      this.mass.delete(key);
+    } else {
+      this.mass.set(key, mass);
+    }
+
+    // Only touch the voxel when the cell appears or disappears, since that rebuilds the chunk
+    const visible = mass >= VISIBLE_MASS;
+    const isWater = this.voxelWorld.getVoxel(voxelPos) === VoxelMaterial.WATER;
+    if (visible !== isWater) {
+      this.writing = true;
+      this.voxelWorld.setVoxel(voxelPos, visible ? VoxelMaterial.WATER : undefined);
+      this.writing = false;
+    }
+  }
+
+  // Empty cells and water can take more water; below the ground plane only existing water can
+  private canHoldWater(voxelPos: VoxelCoord): boolean {
+    const material = this.voxelWorld.getVoxel(voxelPos);
+    if (voxelPos.y < 0) {
+      return material === VoxelMaterial.WATER;
+    }
+    return material === undefined || material === VoxelMaterial.WATER;
+  }
+}
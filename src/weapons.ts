@@ -0,0 +1,168 @@
+import * as THREE from 'three';
+import { PlayState } from './playState';
+import { ImpactBehavior, Projectile, ProjectileSource } from './projectile';
+
+// Builds the projectile a weapon fires
+export type ProjectileFactory = (
+  state: PlayState,
+  weapon: WeaponDefinition,
+  position: THREE.Vector3,
+  direction: THREE.Vector3,
+  initialVelocity: THREE.Vector3,
+  source: ProjectileSource,
+  speed: number
+) => Projectile;
+
+// Data describing one kind of weapon
+export interface WeaponDefinition {
+  name: string;
+  cooldown: number;       // Time between shots (ms)
+  maxAmmo: number;
+  ammoPickup: number;     // Rounds restored by an ammo powerup
+  damage: number;         // Damage dealt to a tank on a direct hit
+  muzzleVelocity: number; // Projectile speed leaving the barrel (m/s)
+  gravityScale: number;   // How strongly gravity pulls the projectile down
+  impact: ImpactBehavior;
+  createProjectile: ProjectileFactory;
+}
+
+// Factory for a round of the given size; small rapid-fire rounds skip the glow light
+function round(radius: number, glow: boolean): ProjectileFactory {
+  return (state, weapon, position, direction, initialVelocity, source, speed) => new Projectile(
+    state,
+    position,
+    direction,
+    initialVelocity,
+    source,
+    {
+      damage: weapon.damage,
+      speed,
+      gravityScale: weapon.gravityScale,
+      radius,
+      glow,
+      impact: weapon.impact
+    }
+  );
+}
+
+export const weaponDefinitions: Record<'standard' | 'highExplosive' | 'armorPiercing' | 'machineGun' | 'incendiary', WeaponDefinition> = {
+  // All-round shell that chips away at cover
+  standard: {
+    name: 'Shell',
+    cooldown: 500,
+    maxAmmo: 50,
+    ammoPickup: 10,
+    damage: 10,
+    muzzleVelocity: 80,
+    gravityScale: 1,
+    impact: { blastRadius: 2, blastDamage: 30, explosionForce: 300, penetration: 0, igniteRadius: 0 },
+    createProjectile: round(0.5, true)
+  },
+  // Slow, heavy shell that blows a big hole but does less to armor
+  highExplosive: {
+    name: 'HE',
+    cooldown: 1200,
+    maxAmmo: 15,
+    ammoPickup: 3,
+    damage: 6,
+    muzzleVelocity: 65,
+    gravityScale: 1,
+    impact: { blastRadius: 4, blastDamage: 70, explosionForce: 800, penetration: 0, igniteRadius: 0 },
+    createProjectile: round(0.6, true)
+  },
+  // Fast, flat-shooting dart that punches through breakable cover to reach what's behind it
+  armorPiercing: {
+    name: 'AP',
+    cooldown: 900,
+    maxAmmo: 20,
+    ammoPickup: 4,
+    damage: 15,
+    muzzleVelocity: 130,
+    gravityScale: 0.6,
+    impact: { blastRadius: 1, blastDamage: 80, explosionForce: 150, penetration: 6, igniteRadius: 0 },
+    createProjectile: round(0.3, true)
+  },
+  // Rapid fire that leaves the terrain alone
+  machineGun: {
+    name: 'MG',
+    cooldown: 100,
+    maxAmmo: 300,
+    ammoPickup: 60,
+    damage: 2,
+    muzzleVelocity: 150,
+    gravityScale: 0.3,
+    impact: { blastRadius: 0, blastDamage: 0, explosionForce: 0, penetration: 0, igniteRadius: 0 },
+    createProjectile: round(0.15, false)
+  },
+  // Lobbed firebomb that sets trees and hedges burning, smoking out anyone hiding in them
+  incendiary: {
+    name: 'INC',
+    cooldown: 1500,
+    maxAmmo: 10,
+    ammoPickup: 2,
+    damage: 5,
+    muzzleVelocity: 70,
+    gravityScale: 1,
+    impact: { blastRadius: 1, blastDamage: 10, explosionForce: 100, penetration: 0, igniteRadius: 3 },
+    createProjectile: round(0.5, true)
+  }
+};
+
+/**
+ * A weapon mounted on a tank: a definition plus its own ammo pool and reload timer
+ */
+export class Weapon {
+  readonly definition: WeaponDefinition;
+  ammo: number;
+  lastFired: number = 0;
+
+  /**
+   * @param ammo Starting ammo; defaults to a full load. Pass Infinity for weapons that never run dry
+   */
+  constructor(definition: WeaponDefinition, ammo: number = definition.maxAmmo) {
+    this.definition = definition;
+    this.ammo = ammo;
+  }
+
+  // Whether the weapon has reloaded and has a round to fire
+  isReady(): boolean {
+    return this.ammo > 0 && Date.now() - this.lastFired >= this.definition.cooldown;
+  }
+
+  addAmmo(count: number): void {
+    this.ammo = Math.min(this.ammo + count, this.definition.maxAmmo);
+  }
+
+  /**
+   * Fire a round if the weapon is ready and add it to the world
+   * @param speed Launch speed, for shooters that work out their own (e.g. lobbing artillery)
+   * @returns The projectile, or null if the weapon wasn't ready
+   */
+  fire(
+    state: PlayState,
+    position: THREE.Vector3,
+    direction: THREE.Vector3,
+    initialVelocity: THREE.Vector3,
+    source: ProjectileSource,
+    speed: number = this.definition.muzzleVelocity
+  ): Projectile | null {
+    if (!this.isReady()) return null;
+
+    this.ammo--;
+    this.lastFired = Date.now();
+
+    const projectile = this.definition.createProjectile(
+      state,
+      this.definition,
+      position,
+      direction,
+      initialVelocity,
+      source,
+      speed
+    );
+
+    state.physicsWorld.addBody(projectile);
+    state.projectiles.push(projectile);
+    return projectile;
+  }
+}
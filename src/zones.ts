@@ -0,0 +1,419 @@
+import { VoxelWorld } from './voxelWorld';
+import { RandomGenerator } from './random';
+import { VoxelPrefab, voxelPrefabs } from './voxelObjects';
+import { HeightfieldMaterials, createNoise2D, fractalNoise, ridgeNoise, smoothstep, generateHeightfield } from './terrain';
+
+/**
+ * Data-driven arena layouts. An arena is a list of zones, each an area of the map
+ * with its own terrain and prefabs spread over it, plus a few map-wide features.
+ * Zones name their prefabs as listed in voxelPrefabs, so a layout is plain data and
+ * a new biome is a new descriptor rather than another generation function.
+ */
+
+// Where a zone lies; radii and positions are fractions of the arena radius so layouts scale with the world
+export type ZoneArea =
+  | { shape: 'sector', startAngle: number, endAngle: number, innerRadius?: number, outerRadius?: number }
+  | { shape: 'circle', x: number, z: number, radius: number };
+
+// A prefab, by its voxelPrefabs name, and how often it's picked relative to the others on offer
+export interface PrefabChoice {
+  prefab: string;
+  weight?: number; // Defaults to 1
+}
+
+// Extra prefabs placed around each spot, e.g. bushes under trees
+export interface Companion {
+  prefabs: PrefabChoice[];
+  chance: number;              // Chance of each attempt placing one
+  count?: number;              // Attempts per spot (default 1)
+  distance: [number, number];  // How far from the spot, in voxels
+}
+
+/**
+ * One kind of thing to place in a zone:
+ * - scatter: `count` spots at random over the zone
+ * - grid: a spot every `spacing` voxels across the zone, lined up on its center
+ * - clusters: `count` clusters at random, each with spots around its center
+ */
+export interface ZonePlacement {
+  layout: 'scatter' | 'grid' | 'clusters';
+  prefabs: PrefabChoice[];
+  count?: number;
+  spacing?: number;
+  chance?: number;       // Chance each spot is actually used (default 1)
+  minDistance?: number;  // Closest a spot may be to the arena center, in voxels (default the layout's safeRadius)
+  cluster?: {
+    radius: [number, number];  // Range of cluster sizes, in voxels
+    innerRadius?: number;      // Spots keep at least this far from the center, in voxels
+    spotsPerRadius: number;    // Spots per voxel of cluster radius
+    center?: PrefabChoice[];   // Placed at the middle of the cluster
+    centerChance?: number;     // Chance of the center prefab (default 1)
+  };
+  companions?: Companion[];
+}
+
+/**
+ * Hills raised from the ground plane before anything is placed. The ground flattens
+ * out towards the zone's edge and along the arena's roads.
+ */
+export interface ZoneTerrain {
+  height: number;   // Tallest the ground rises, in voxels
+  scale: number;    // Rough size of hills and valleys, in voxels
+  ridges: number;   // 0-1, how much of the relief is sharp ridges rather than rolling hills
+  falloff: number;  // Distance over which the ground flattens out at the zone's edge, in voxels
+  range?: {
+    length: number;  // A main ridge through the zone's center at a random heading, in voxels
+    width: number;
+    pass: number;    // Width of the saddle through it
+    passMarker?: string; // Prefab placed either side of the pass
+  };
+  materials?: HeightfieldMaterials;
+}
+
+export interface ZoneDescriptor {
+  name: string;
+  area: ZoneArea;
+  terrain?: ZoneTerrain;
+  placements: ZonePlacement[];
+}
+
+export interface ArenaLayout {
+  zones: ZoneDescriptor[];
+  safeRadius: number;  // Nothing is placed this close to the center, where the player starts (voxels)
+  roads?: { angles: number[], width: number, marker: string }; // Roadways out from the center, edged with the marker prefab
+  centerpiece?: string; // Prefab built at the center of the arena
+  river?: { bridgeChance: number }; // A loop of ponds and bankside trees around the center, some of them bridged
+}
+
+const ROAD_SHOULDER = 12;  // Distance over which hills flatten out beside a road
+const RANGE_HEIGHT = 0.6;  // Share of a zone's height taken up by its main ridge
+
+/**
+ * Lay out every zone of an arena, then its roads, centerpiece and river
+ * @param radius The radius of the circular playing field
+ */
+export function generateArena(voxelWorld: VoxelWorld, radius: number, layout: ArenaLayout, random: RandomGenerator): void {
+  const generator = new ZoneGenerator(voxelWorld, radius, layout, random);
+
+  // Raise every zone's hills first so everything placed afterwards sits on them
+  const passes = layout.zones.map(zone => zone.terrain ? generator.raiseTerrain(zone, zone.terrain) : null);
+
+  layout.zones.forEach((zone, index) => {
+    for (const placement of zone.placements) {
+      generator.place(zone, placement);
+    }
+    const pass = passes[index];
+    if (pass) {
+      generator.markPass(pass);
+    }
+  });
+
+  if (layout.roads) {
+    generator.createRoads(layout.roads);
+  }
+  if (layout.centerpiece) {
+    generator.createPrefab(layout.centerpiece, 0, 0);
+  }
+  if (layout.river) {
+    generator.createRiver(layout.river);
+  }
+}
+
+// Where a zone's main ridge dips to let tanks through
+interface MountainPass {
+  x: number;
+  z: number;
+  direction: number; // Heading of the ridge (radians)
+  width: number;
+  marker?: string;
+}
+
+class ZoneGenerator {
+  private voxelWorld: VoxelWorld;
+  private radius: number;
+  private layout: ArenaLayout;
+  private random: RandomGenerator;
+  private prefabs: Map<string, VoxelPrefab['create']>;
+
+  constructor(voxelWorld: VoxelWorld, radius: number, layout: ArenaLayout, random: RandomGenerator) {
+    this.voxelWorld = voxelWorld;
+    this.radius = radius;
+    this.layout = layout;
+    this.random = random;
+    this.prefabs = new Map(voxelPrefabs.map(prefab => [prefab.name, prefab.create]));
+  }
+
+  createPrefab(name: string, x: number, z: number): void {
+    const create = this.prefabs.get(name);
+    if (!create) {
+      throw new Error(`Unknown prefab "${name}"`);
+    }
+    create(this.voxelWorld, Math.floor(x), Math.floor(z), this.random);
+  }
+
+  place(zone: ZoneDescriptor, placement: ZonePlacement): void {
+    const minDistance = placement.minDistance ?? this.layout.safeRadius;
+    const spots: Array<{ x: number, z: number }> = [];
+
+    switch (placement.layout) {
+      case 'scatter':
+        for (let i = 0; i < (placement.count ?? 0); i++) {
+          spots.push(this.randomPoint(zone.area));
+        }
+        break;
+
+      case 'grid': {
+        const spacing = placement.spacing ?? 25;
+        const center = this.areaCenter(zone.area);
+        const steps = Math.ceil(this.radius * 2 / spacing);
+        for (let row = -steps; row <= steps; row++) {
+          for (let col = -steps; col <= steps; col++) {
+            spots.push({ x: center.x + col * spacing, z: center.z + row * spacing });
+          }
+        }
+        break;
+      }
+
+      case 'clusters': {
+        const cluster = placement.cluster ?? { radius: [10, 10], spotsPerRadius: 1 };
+        for (let i = 0; i < (placement.count ?? 0); i++) {
+          const center = this.randomPoint(zone.area);
+          const clusterRadius = cluster.radius[0] + this.random() * (cluster.radius[1] - cluster.radius[0]);
+          const innerRadius = cluster.innerRadius ?? 0;
+          const spotCount = Math.floor(clusterRadius * cluster.spotsPerRadius);
+          for (let j = 0; j < spotCount; j++) {
+            const angle = this.random() * Math.PI * 2;
+            const distance = innerRadius + this.random() * (clusterRadius - innerRadius);
+            spots.push({ x: center.x + Math.cos(angle) * distance, z: center.z + Math.sin(angle) * distance });
+          }
+
+          if (cluster.center && Math.hypot(center.x, center.z) >= minDistance && this.random() < (cluster.centerChance ?? 1)) {
+            this.createPrefab(this.pick(cluster.center), center.x, center.z);
+          }
+        }
+        break;
+      }
+    }
+
+    for (const spot of spots) {
+      if (!this.contains(zone.area, spot.x, spot.z)) continue;
+      if (Math.hypot(spot.x, spot.z) < minDistance) continue;
+      if (placement.chance !== undefined && this.random() >= placement.chance) continue;
+
+      this.createPrefab(this.pick(placement.prefabs), spot.x, spot.z);
+
+      for (const companion of placement.companions ?? []) {
+        for (let i = 0; i < (companion.count ?? 1); i++) {
+          if (this.random() >= companion.chance) continue;
+          const angle = this.random() * Math.PI * 2;
+          const distance = companion.distance[0] + this.random() * (companion.distance[1] - companion.distance[0]);
+          this.createPrefab(this.pick(companion.prefabs), spot.x + Math.cos(angle) * distance, spot.z + Math.sin(angle) * distance);
+        }
+      }
+    }
+  }
+
+  /**
+   * Raise a zone's hills from seeded noise
+   * @returns Where its main ridge's pass is, if it has one
+   */
+  raiseTerrain(zone: ZoneDescriptor, terrain: ZoneTerrain): MountainPass | null {
+    const noise = createNoise2D(this.random);
+    const center = this.areaCenter(zone.area);
+
+    // The main ridge runs through the zone's center and dips to a saddle at the pass
+    const range = terrain.range;
+    const rangeDirection = this.random() * Math.PI;
+    const passAlong = range ? (this.random() * 0.6 - 0.3) * range.length : 0; // 20%-80% along the ridge
+
+    const heightAt = (x: number, z: number): number => {
+      if (!this.contains(zone.area, x, z)) return 0;
+
+      // Flatten out towards the zone's edge and along the roads
+      let falloff = smoothstep(0, terrain.falloff, this.edgeDistance(zone.area, x, z));
+      if (this.layout.roads) {
+        const shoulder = this.layout.roads.width / 2 + 2;
+        for (const angle of this.layout.roads.angles) {
+          falloff *= smoothstep(shoulder, shoulder + ROAD_SHOULDER, distanceToRay(x, z, angle));
+        }
+      }
+      if (falloff <= 0) return 0;
+
+      // Rolling hills and smaller ridges with valleys between them
+      const hills = 0.5 + 0.5 * fractalNoise(noise, x / terrain.scale, z / terrain.scale, 4);
+      const crests = ridgeNoise(noise, x / (terrain.scale * 1.5) + 100, z / (terrain.scale * 1.5) + 100, 3);
+      const relief = terrain.ridges * crests + (1 - terrain.ridges) * hills;
+      if (!range) {
+        return terrain.height * falloff * relief;
+      }
+
+      const across = (x - center.x) * Math.sin(rangeDirection) - (z - center.z) * Math.cos(rangeDirection);
+      const along = (x - center.x) * Math.cos(rangeDirection) + (z - center.z) * Math.sin(rangeDirection);
+      const ridgeEnds = smoothstep(range.length / 2, range.length / 2 - 20, Math.abs(along));
+      const pass = 1 - 0.8 * Math.exp(-Math.pow((along - passAlong) / (range.pass / 2), 2));
+      const ridge = Math.exp(-Math.pow(across / range.width, 2)) * ridgeEnds * pass;
+      return terrain.height * falloff * (RANGE_HEIGHT * ridge + (1 - RANGE_HEIGHT) * relief);
+    };
+
+    const bounds = this.areaBounds(zone.area);
+    generateHeightfield(this.voxelWorld, bounds, heightAt, terrain.materials);
+
+    if (!range) return null;
+    return {
+      x: center.x + Math.cos(rangeDirection) * passAlong,
+      z: center.z + Math.sin(rangeDirection) * passAlong,
+      direction: rangeDirection,
+      width: range.pass,
+      marker: range.passMarker
+    };
+  }
+
+  // Line both sides of a mountain pass with its marker prefab
+  markPass(pass: MountainPass): void {
+    if (!pass.marker) return;
+
+    const perpAngle = pass.direction + Math.PI / 2;
+    for (let i = -pass.width / 2; i < pass.width / 2; i += 5) {
+      const passX = pass.x + Math.cos(pass.direction) * i;
+      const passZ = pass.z + Math.sin(pass.direction) * i;
+      this.createPrefab(pass.marker, passX + Math.cos(perpAngle) * 8, passZ + Math.sin(perpAngle) * 8);
+      this.createPrefab(pass.marker, passX - Math.cos(perpAngle) * 8, passZ - Math.sin(perpAngle) * 8);
+    }
+  }
+
+  // Mark the edges of roadways running from the center out towards the boundary
+  createRoads(roads: NonNullable<ArenaLayout['roads']>): void {
+    for (const angle of roads.angles) {
+      for (let distance = this.layout.safeRadius; distance < this.radius * 0.85; distance += 20) {
+        const roadCenterX = Math.cos(angle) * distance;
+        const roadCenterZ = Math.sin(angle) * distance;
+
+        const perpAngle = angle + Math.PI / 2;
+        this.createPrefab(roads.marker, roadCenterX + Math.cos(perpAngle) * roads.width / 2, roadCenterZ + Math.sin(perpAngle) * roads.width / 2);
+        this.createPrefab(roads.marker, roadCenterX - Math.cos(perpAngle) * roads.width / 2, roadCenterZ - Math.sin(perpAngle) * roads.width / 2);
+      }
+    }
+  }
+
+  // A winding loop of ponds around the center, with trees and bushes along the banks
+  createRiver(river: { bridgeChance: number }): void {
+    const riverPointCount = 8;
+    const riverPoints: Array<{ x: number, z: number }> = [];
+    for (let i = 0; i < riverPointCount; i++) {
+      const angle = (i / riverPointCount) * Math.PI * 2;
+      const distance = this.radius * (0.3 + 0.2 * Math.sin(angle * 3));
+      riverPoints.push({ x: Math.floor(Math.cos(angle) * distance), z: Math.floor(Math.sin(angle) * distance) });
+    }
+
+    for (let i = 0; i < riverPointCount; i++) {
+      const point = riverPoints[i];
+      const nextPoint = riverPoints[(i + 1) % riverPointCount];
+      if (Math.hypot(point.x, point.z) < 30) continue;
+
+      this.createPrefab('Pond', point.x, point.z);
+      if (this.random() < river.bridgeChance) {
+        this.createPrefab('Bridge', point.x, point.z);
+      }
+
+      // Sometimes another pond between points
+      if (this.random() > 0.5) {
+        const middleX = (point.x + nextPoint.x) / 2;
+        const middleZ = (point.z + nextPoint.z) / 2;
+        if (Math.hypot(middleX, middleZ) > 30) {
+          this.createPrefab('Pond', middleX, middleZ);
+        }
+      }
+
+      for (let j = 0; j < 3; j++) {
+        const bankAngle = this.random() * Math.PI * 2;
+        const bankDistance = 8 + this.random() * 4;
+        const prefab = this.random() > 0.5 ? 'Tree' : 'Bush';
+        this.createPrefab(prefab, point.x + Math.cos(bankAngle) * bankDistance, point.z + Math.sin(bankAngle) * bankDistance);
+      }
+    }
+  }
+
+  // Pick one of the choices, weighted
+  private pick(choices: PrefabChoice[]): string {
+    const total = choices.reduce((sum, choice) => sum + (choice.weight ?? 1), 0);
+    let roll = this.random() * total;
+    for (const choice of choices) {
+      roll -= choice.weight ?? 1;
+      if (roll < 0) return choice.prefab;
+    }
+    return choices[choices.length - 1].prefab;
+  }
+
+  private randomPoint(area: ZoneArea): { x: number, z: number } {
+    if (area.shape === 'circle') {
+      const angle = this.random() * Math.PI * 2;
+      const distance = this.random() * area.radius * this.radius;
+      return { x: area.x * this.radius + Math.cos(angle) * distance, z: area.z * this.radius + Math.sin(angle) * distance };
+    }
+
+    const inner = (area.innerRadius ?? 0) * this.radius;
+    const outer = (area.outerRadius ?? 0.9) * this.radius;
+    const angle = area.startAngle + this.random() * (area.endAngle - area.startAngle);
+    const distance = inner + this.random() * (outer - inner);
+    return { x: Math.cos(angle) * distance, z: Math.sin(angle) * distance };
+  }
+
+  // The middle of the area, where grids line up and main ridges run through
+  private areaCenter(area: ZoneArea): { x: number, z: number } {
+    if (area.shape === 'circle') {
+      return { x: area.x * this.radius, z: area.z * this.radius };
+    }
+    if (area.endAngle - area.startAngle >= Math.PI * 2) {
+      return { x: 0, z: 0 };
+    }
+    const angle = (area.startAngle + area.endAngle) / 2;
+    const distance = ((area.innerRadius ?? 0) + (area.outerRadius ?? 0.9)) / 2 * this.radius;
+    return { x: Math.cos(angle) * distance, z: Math.sin(angle) * distance };
+  }
+
+  private areaBounds(area: ZoneArea): { minX: number, maxX: number, minZ: number, maxZ: number } {
+    const center = area.shape === 'circle' ? this.areaCenter(area) : { x: 0, z: 0 };
+    const extent = (area.shape === 'circle' ? area.radius : area.outerRadius ?? 0.9) * this.radius;
+    return {
+      minX: Math.floor(center.x - extent), maxX: Math.ceil(center.x + extent),
+      minZ: Math.floor(center.z - extent), maxZ: Math.ceil(center.z + extent)
+    };
+  }
+
+  private contains(area: ZoneArea, x: number, z: number): boolean {
+    return this.edgeDistance(area, x, z) >= 0;
+  }
+
+  // How far inside the area a point is; negative outside it
+  private edgeDistance(area: ZoneArea, x: number, z: number): number {
+    if (area.shape === 'circle') {
+      return area.radius * this.radius - Math.hypot(x - area.x * this.radius, z - area.z * this.radius);
+    }
+
+    const distance = Math.hypot(x, z);
+    const inner = Math.max((area.innerRadius ?? 0) * this.radius, this.layout.safeRadius);
+    const outer = (area.outerRadius ?? 0.9) * this.radius;
+    let edge = Math.min(distance - inner, outer - distance);
+
+    const span = area.endAngle - area.startAngle;
+    if (span < Math.PI * 2) {
+      // Angle past the start of the sector, in [0, 2π)
+      const angle = ((Math.atan2(z, x) - area.startAngle) % (Math.PI * 2) + Math.PI * 2) % (Math.PI * 2);
+      if (angle >= span) return -1;
+      edge = Math.min(edge, distanceToEdge(distance, angle), distanceToEdge(distance, span - angle));
+    }
+    return edge;
+  }
+}
+
+// Distance from a point to the straight side of a sector, given how far round from it the point is
+function distanceToEdge(distance: number, angle: number): number {
+  return angle >= Math.PI / 2 ? distance : distance * Math.sin(angle);
+}
+
+// Distance from a point to a ray running out from the arena center at the given angle
+function distanceToRay(x: number, z: number, angle: number): number {
+  const along = x * Math.cos(angle) + z * Math.sin(angle);
+  if (along <= 0) return Math.hypot(x, z);
+  return Math.abs(z * Math.cos(angle) - x * Math.sin(angle));
+}